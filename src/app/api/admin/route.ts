@@ -0,0 +1,7 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdmin } from "@/lib/admin";
+
+// Check an admin token; the UI only shows the topic editor to admins
+export async function GET(request: NextRequest) {
+  return NextResponse.json({ admin: isAdmin(request) });
+}
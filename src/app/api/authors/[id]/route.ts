@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadAuthorProfile } from "@/lib/authors";
+
+// An author's post count, topic spread, daily activity and mean embedding
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const profile = await loadAuthorProfile(id);
+
+    if (!profile) {
+      return NextResponse.json({ error: "Author not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(profile);
+  } catch (error) {
+    console.error("Error fetching author:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch author" },
+      { status: 500 }
+    );
+  }
+}
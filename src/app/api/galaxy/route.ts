@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { galaxyChunks, loadGalaxyHeader } from "@/lib/galaxy";
+
+// Stream every post's position as newline-delimited JSON: a header with the
+// topic color table, then one columnar chunk per line
+export async function GET() {
+  try {
+    const header = await loadGalaxyHeader();
+    const topicIndex = new Map(header.topics.map((t, i) => [t.id, i]));
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(header) + "\n"));
+          for await (const chunk of galaxyChunks(topicIndex)) {
+            controller.enqueue(encoder.encode(JSON.stringify(chunk) + "\n"));
+          }
+          controller.close();
+        } catch (error) {
+          console.error("Error streaming galaxy:", error);
+          controller.error(error);
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching galaxy:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch galaxy" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { loadCompactGraph, GRAPH_LIMIT, MAX_GRAPH_LIMIT } from "@/lib/graph";
+import { encodeCompactGraph } from "@/lib/clustering";
+
+// Bulk positions for drawing: columnar JSON by default, or a packed binary
+// buffer with `format=binary`. Responses carry an ETag so unchanged graphs
+// come back as 304s.
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const format = searchParams.get("format") || "json";
+    const limit = parseInt(searchParams.get("limit") || String(GRAPH_LIMIT));
+
+    if (format !== "json" && format !== "binary") {
+      return NextResponse.json(
+        { error: "format must be json or binary" },
+        { status: 400 }
+      );
+    }
+    if (isNaN(limit) || limit < 1 || limit > MAX_GRAPH_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be between 1 and ${MAX_GRAPH_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const graph = await loadCompactGraph({
+      topicId: searchParams.get("topicId") || undefined,
+      submoltId: searchParams.get("submoltId") || undefined,
+      authorId: searchParams.get("authorId") || undefined,
+      limit,
+    });
+
+    const body =
+      format === "binary"
+        ? Buffer.from(encodeCompactGraph(graph))
+        : Buffer.from(JSON.stringify(graph));
+    const etag = `"${createHash("sha1").update(body).digest("base64url")}"`;
+    const headers = {
+      ETag: etag,
+      "Cache-Control": "no-cache", // Always revalidate, but reuse on 304
+      "Content-Type": format === "binary" ? "application/octet-stream" : "application/json",
+    };
+
+    if (request.headers.get("if-none-match") === etag) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    return new Response(body, { headers });
+  } catch (error) {
+    console.error("Error fetching graph:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch graph" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+
+// Cancel a pending or running job. A running job is "cancelling" until its
+// pipeline notices at the next checkpoint and stops, and only then becomes
+// "cancelled"; the checkpoint is kept so the job can be resumed.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const [pending, running] = await prisma.$transaction([
+      prisma.ingestionJob.updateMany({
+        where: { id, status: "pending" },
+        data: { status: "cancelled", completedAt: new Date() },
+      }),
+      prisma.ingestionJob.updateMany({
+        where: { id, status: "running" },
+        data: { status: "cancelling" },
+      }),
+    ]);
+    const count = pending.count + running.count;
+
+    const job = await prisma.ingestionJob.findUnique({ where: { id } });
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    if (count === 0) {
+      return NextResponse.json(
+        { error: `Job is already ${job.status}`, job },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ message: "Job cancelled", job });
+  } catch (error) {
+    console.error("Error cancelling job:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { resumeIngestion, SIMILARITY_THRESHOLD } from "@/lib/ingest";
+import { reclusterAll } from "@/lib/recluster";
+import { RESUMABLE_STATUSES, failJob, findRunningJob } from "@/lib/jobs";
+
+// Resume a failed, cancelled or interrupted job from its last checkpoint.
+// Ingestion jobs need the Moltbook API key again since it is never stored.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { apiKey, similarityThreshold = SIMILARITY_THRESHOLD } = body;
+
+    const job = await prisma.ingestionJob.findUnique({ where: { id } });
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    if (job.type !== "recluster" && !job.sourceUrl) {
+      return NextResponse.json(
+        { error: "Job has no source URL to resume from", job },
+        { status: 400 }
+      );
+    }
+
+    const running = await findRunningJob(id);
+
+    if (running) {
+      return NextResponse.json(
+        { error: `A ${running.type} job is already running`, jobId: running.id },
+        { status: 409 }
+      );
+    }
+
+    const { count } = await prisma.ingestionJob.updateMany({
+      where: { id, status: { in: RESUMABLE_STATUSES } },
+      data: {
+        status: "running",
+        completedAt: null,
+        errorLog: null,
+        heartbeatAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: `Job is ${job.status} and cannot be resumed`, job },
+        { status: 409 }
+      );
+    }
+
+    // Start async run; a run that throws before its own error handling
+    // takes over must not leave the job "running"
+    const onError = (error: unknown) => {
+      console.error(error);
+      return failJob(job.id, error).catch(console.error);
+    };
+    if (job.type === "recluster") {
+      // Re-clustering has no partial state worth keeping; run it again
+      reclusterAll(job.id).catch(onError);
+    } else {
+      resumeIngestion(job, apiKey, similarityThreshold).catch(onError);
+    }
+
+    return NextResponse.json({ message: "Job resumed", jobId: job.id });
+  } catch (error) {
+    console.error("Error resuming job:", error);
+    return NextResponse.json(
+      { error: "Failed to resume job" },
+      { status: 500 }
+    );
+  }
+}
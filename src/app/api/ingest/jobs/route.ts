@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+
+// List ingestion and re-cluster jobs, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get("status");
+    const type = searchParams.get("type");
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 100);
+    const offset = parseInt(searchParams.get("offset") || "0");
+
+    if (isNaN(limit) || limit < 1) {
+      return NextResponse.json(
+        { error: "limit must be a positive integer" },
+        { status: 400 }
+      );
+    }
+    if (isNaN(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: "offset must be a non-negative integer" },
+        { status: 400 }
+      );
+    }
+
+    const whereClause = {
+      ...(status ? { status } : {}),
+      ...(type ? { type } : {}),
+    };
+
+    const [jobs, total] = await Promise.all([
+      prisma.ingestionJob.findMany({
+        where: whereClause,
+        take: limit,
+        skip: offset,
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.ingestionJob.count({ where: whereClause }),
+    ]);
+
+    return NextResponse.json({ jobs, total, limit, offset });
+  } catch (error) {
+    console.error("Error listing jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to list jobs" },
+      { status: 500 }
+    );
+  }
+}
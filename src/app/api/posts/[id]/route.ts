@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { POST_INCLUDE, serializePost, findNeighbors, NEIGHBOR_COUNT } from "@/lib/posts";
+
+// A single post with its full body and topics, plus its nearest neighbors
+// in embedding space (`neighbors=0` to skip them)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const neighborCount = parseInt(
+      request.nextUrl.searchParams.get("neighbors") || String(NEIGHBOR_COUNT)
+    );
+
+    if (isNaN(neighborCount) || neighborCount < 0 || neighborCount > 50) {
+      return NextResponse.json(
+        { error: "neighbors must be between 0 and 50" },
+        { status: 400 }
+      );
+    }
+
+    const post = await prisma.post.findUnique({
+      where: { id },
+      include: POST_INCLUDE,
+    });
+
+    if (!post) {
+      return NextResponse.json({ error: "Post not found" }, { status: 404 });
+    }
+
+    const neighbors = neighborCount > 0 ? await findNeighbors(id, neighborCount) : [];
+
+    return NextResponse.json({ post: serializePost(post), neighbors });
+  } catch (error) {
+    console.error("Error fetching post:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch post" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { findNeighbors } from "@/lib/posts";
+
+const SIMILAR_COUNT = 10;
+
+// Posts nearest to a post in embedding space. `otherTopics=true` skips
+// posts that share a topic with it.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const k = parseInt(searchParams.get("k") || String(SIMILAR_COUNT));
+    const otherTopics = searchParams.get("otherTopics") === "true";
+
+    if (isNaN(k) || k < 1 || k > 50) {
+      return NextResponse.json(
+        { error: "k must be between 1 and 50" },
+        { status: 400 }
+      );
+    }
+
+    const post = await prisma.post.findUnique({ where: { id }, select: { id: true } });
+    if (!post) {
+      return NextResponse.json({ error: "Post not found" }, { status: 404 });
+    }
+
+    const neighbors = await findNeighbors(id, k, { otherTopics });
+    return NextResponse.json({ neighbors });
+  } catch (error) {
+    console.error("Error fetching similar posts:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch similar posts" },
+      { status: 500 }
+    );
+  }
+}
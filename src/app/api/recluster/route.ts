@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { reclusterAll } from "@/lib/recluster";
+import { findRunningJob } from "@/lib/jobs";
+
+// Endpoint to rebuild all topics over the entire post corpus
+export async function POST() {
+  try {
+    const running = await findRunningJob();
+
+    if (running) {
+      return NextResponse.json(
+        { error: `A ${running.type} job is already running`, jobId: running.id },
+        { status: 409 }
+      );
+    }
+
+    // Create re-cluster job
+    const job = await prisma.ingestionJob.create({
+      data: {
+        type: "recluster",
+        status: "running",
+        startedAt: new Date(),
+      },
+    });
+
+    // Start async re-cluster
+    reclusterAll(job.id).catch(console.error);
+
+    return NextResponse.json({
+      message: "Re-cluster started",
+      jobId: job.id,
+    });
+  } catch (error) {
+    console.error("Re-cluster error:", error);
+    return NextResponse.json(
+      { error: "Failed to start re-cluster" },
+      { status: 500 }
+    );
+  }
+}
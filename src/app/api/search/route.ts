@@ -1,66 +1,90 @@
 import { NextRequest, NextResponse } from "next/server";
-import prisma from "@/lib/db";
-import { generateEmbedding } from "@/lib/openai";
+import { search, SearchMode, SearchOptions, SEARCH_MODES } from "@/lib/search";
+
+const MAX_SEARCH_LIMIT = 100;
+
+// Parse a from/to date param. Date-only values cover the whole day, so
+// `to=2026-02-14` includes posts from that day.
+function parseDate(value: string | null, endOfDay = false): Date | undefined | null {
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const query = searchParams.get("q");
     const limit = parseInt(searchParams.get("limit") || "20");
+    const offset = parseInt(searchParams.get("offset") || "0");
+    const mode = (searchParams.get("mode") || "hybrid") as SearchMode;
+    const type = searchParams.get("type");
+    const minSimilarityParam = searchParams.get("minSimilarity");
+    const minSimilarity = minSimilarityParam ? parseFloat(minSimilarityParam) : undefined;
+    const from = parseDate(searchParams.get("from"));
+    const to = parseDate(searchParams.get("to"), true);
 
-    if (!query) {
-      return NextResponse.json({ results: [] });
+    if (!SEARCH_MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: `mode must be one of ${SEARCH_MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (type && type !== "post" && type !== "topic") {
+      return NextResponse.json(
+        { error: "type must be post or topic" },
+        { status: 400 }
+      );
+    }
+    if (isNaN(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be between 1 and ${MAX_SEARCH_LIMIT}` },
+        { status: 400 }
+      );
+    }
+    if (isNaN(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: "offset must be a non-negative integer" },
+        { status: 400 }
+      );
+    }
+    if (minSimilarity !== undefined && (isNaN(minSimilarity) || minSimilarity < -1 || minSimilarity > 1)) {
+      return NextResponse.json(
+        { error: "minSimilarity must be a number between -1 and 1" },
+        { status: 400 }
+      );
+    }
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: "from/to must be valid dates" },
+        { status: 400 }
+      );
     }
 
-    // Generate embedding for the search query
-    const queryEmbedding = await generateEmbedding(query);
-    const embeddingStr = `[${queryEmbedding.join(",")}]`;
-
-    // Search topics using vector similarity
-    const topicResults = await prisma.$queryRaw<
-      Array<{ id: string; name: string; description: string | null; similarity: number }>
-    >`
-      SELECT id, name, description,
-             1 - (centroid_embedding <=> ${embeddingStr}::vector) as similarity
-      FROM topics
-      WHERE centroid_embedding IS NOT NULL
-      ORDER BY centroid_embedding <=> ${embeddingStr}::vector
-      LIMIT ${Math.floor(limit / 2)}
-    `;
-
-    // Search posts using vector similarity
-    const postResults = await prisma.$queryRaw<
-      Array<{ id: string; content: string; title: string | null; similarity: number }>
-    >`
-      SELECT id, content, title,
-             1 - (embedding <=> ${embeddingStr}::vector) as similarity
-      FROM posts
-      WHERE embedding IS NOT NULL
-      ORDER BY embedding <=> ${embeddingStr}::vector
-      LIMIT ${Math.floor(limit / 2)}
-    `;
+    if (!query) {
+      return NextResponse.json({ results: [], mode, hasMore: false });
+    }
 
-    // Combine and format results
-    const results = [
-      ...topicResults.map((t) => ({
-        id: t.id,
-        type: "topic" as const,
-        label: t.name,
-        content: t.description || undefined,
-        similarity: t.similarity,
-      })),
-      ...postResults.map((p) => ({
-        id: p.id,
-        type: "post" as const,
-        label: p.title || p.content.slice(0, 50) + "...",
-        content: p.content,
-        similarity: p.similarity,
-      })),
-    ]
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, limit);
+    const result = await search(query, {
+      mode,
+      limit,
+      offset,
+      type: (type || undefined) as SearchOptions["type"],
+      topicId: searchParams.get("topicId") || undefined,
+      author: searchParams.get("author") || undefined,
+      authorId: searchParams.get("authorId") || undefined,
+      from,
+      to,
+      minSimilarity,
+    });
 
-    return NextResponse.json({ results });
+    return NextResponse.json({ ...result, limit, offset });
   } catch (error) {
     console.error("Search error:", error);
     return NextResponse.json(
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { getTopicColor } from "@/lib/clustering";
+
+// List submolts with their size, map position (mean of their posts) and how
+// their posts spread across topics
+export async function GET() {
+  try {
+    const [groups, submolts, distribution] = await Promise.all([
+      prisma.post.groupBy({
+        by: ["submoltId"],
+        where: { submoltId: { not: null }, canonicalId: null }, // Near-duplicates are hidden on the map
+        _count: { _all: true },
+        _avg: { posX: true, posY: true, posZ: true },
+      }),
+      prisma.submolt.findMany(),
+      prisma.$queryRaw<Array<{ submolt_id: string; topic_id: string; count: number }>>`
+        SELECT p.submolt_id, pt.topic_id, COUNT(*)::int AS count
+        FROM post_topics pt
+        JOIN topics t ON t.id = pt.topic_id AND t.parent_id IS NULL
+        JOIN posts p ON p.id = pt.post_id
+        WHERE p.submolt_id IS NOT NULL
+          AND p.canonical_id IS NULL
+        GROUP BY p.submolt_id, pt.topic_id
+      `,
+    ]);
+
+    const submoltsById = new Map(submolts.map((s) => [s.id, s]));
+    const topicsBySubmolt: Map<string, Array<{ topicId: string; count: number }>> = new Map();
+    distribution.forEach((row) => {
+      if (!topicsBySubmolt.has(row.submolt_id)) {
+        topicsBySubmolt.set(row.submolt_id, []);
+      }
+      topicsBySubmolt.get(row.submolt_id)!.push({ topicId: row.topic_id, count: row.count });
+    });
+
+    const result = groups
+      .filter((g) => g.submoltId && submoltsById.has(g.submoltId))
+      .sort((a, b) => b._count._all - a._count._all)
+      .map((g, index) => {
+        const submolt = submoltsById.get(g.submoltId!)!;
+        return {
+          id: submolt.id,
+          name: submolt.name,
+          displayName: submolt.displayName,
+          color: getTopicColor(index),
+          posX: g._avg.posX,
+          posY: g._avg.posY,
+          posZ: g._avg.posZ,
+          postCount: g._count._all,
+          topics: (topicsBySubmolt.get(submolt.id) || []).sort((a, b) => b.count - a.count),
+        };
+      });
+
+    return NextResponse.json({
+      submolts: result,
+      totalSubmolts: result.length,
+    });
+  } catch (error) {
+    console.error("Error fetching submolts:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch submolts" },
+      { status: 500 }
+    );
+  }
+}
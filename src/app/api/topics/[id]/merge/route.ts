@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { mergeTopics } from "@/lib/curation";
+import { isAdmin } from "@/lib/admin";
+
+// Merge this topic into another topic on the same level
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdmin(request)) {
+      return NextResponse.json({ error: "Admin token required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { targetId } = await request.json();
+
+    if (typeof targetId !== "string" || targetId === id) {
+      return NextResponse.json(
+        { error: "targetId must be another topic's id" },
+        { status: 400 }
+      );
+    }
+
+    const [source, target] = await Promise.all([
+      prisma.topic.findUnique({ where: { id } }),
+      prisma.topic.findUnique({ where: { id: targetId } }),
+    ]);
+
+    if (!source || !target) {
+      return NextResponse.json({ error: "Topic not found" }, { status: 404 });
+    }
+    if (source.parentId !== target.parentId) {
+      return NextResponse.json(
+        { error: "Only topics on the same level can be merged" },
+        { status: 400 }
+      );
+    }
+
+    await mergeTopics(id, targetId);
+
+    return NextResponse.json({ message: "Topics merged", topicId: targetId });
+  } catch (error) {
+    console.error("Error merging topics:", error);
+    return NextResponse.json(
+      { error: "Failed to merge topics" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { movePosts } from "@/lib/curation";
+import { isAdmin } from "@/lib/admin";
+
+const MAX_MOVE = 1000; // Posts per request
+
+// Move posts from this topic to another on the same level
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdmin(request)) {
+      return NextResponse.json({ error: "Admin token required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { postIds, targetId } = await request.json();
+
+    if (
+      !Array.isArray(postIds) ||
+      postIds.length === 0 ||
+      postIds.length > MAX_MOVE ||
+      !postIds.every((postId) => typeof postId === "string")
+    ) {
+      return NextResponse.json(
+        { error: `postIds must be a list of 1 to ${MAX_MOVE} post ids` },
+        { status: 400 }
+      );
+    }
+    if (typeof targetId !== "string" || targetId === id) {
+      return NextResponse.json(
+        { error: "targetId must be another topic's id" },
+        { status: 400 }
+      );
+    }
+
+    const [source, target] = await Promise.all([
+      prisma.topic.findUnique({ where: { id } }),
+      prisma.topic.findUnique({ where: { id: targetId } }),
+    ]);
+
+    if (!source || !target) {
+      return NextResponse.json({ error: "Topic not found" }, { status: 404 });
+    }
+    // Posts keep their links above the source topic, so the target must
+    // share its parent
+    if (source.parentId !== target.parentId) {
+      return NextResponse.json(
+        { error: "Posts can only move between topics on the same level" },
+        { status: 400 }
+      );
+    }
+
+    const moved = await movePosts(postIds, id, targetId);
+
+    return NextResponse.json({ message: `Moved ${moved} posts`, moved });
+  } catch (error) {
+    console.error("Error moving posts:", error);
+    return NextResponse.json(
+      { error: "Failed to move posts" },
+      { status: 500 }
+    );
+  }
+}
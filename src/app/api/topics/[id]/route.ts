@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { POST_INCLUDE, serializePost } from "@/lib/posts";
+import { loadTopicStats } from "@/lib/topics";
+import { updateTopic, TopicChanges } from "@/lib/curation";
+import { isAdmin } from "@/lib/admin";
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// A topic with its stats and a page of its posts, most relevant first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 100);
+    const offset = parseInt(searchParams.get("offset") || "0");
+
+    const topic = await prisma.topic.findUnique({ where: { id } });
+
+    if (!topic) {
+      return NextResponse.json({ error: "Topic not found" }, { status: 404 });
+    }
+
+    const [links, stats] = await Promise.all([
+      prisma.postTopic.findMany({
+        where: { topicId: id },
+        orderBy: [{ relevance: "desc" }, { postId: "asc" }],
+        take: limit,
+        skip: offset,
+        include: { post: { include: POST_INCLUDE } },
+      }),
+      loadTopicStats(id),
+    ]);
+
+    return NextResponse.json({
+      topic: {
+        id: topic.id,
+        name: topic.name,
+        description: topic.description,
+        color: topic.color,
+        posX: topic.posX,
+        posY: topic.posY,
+        posZ: topic.posZ,
+        postCount: topic.postCount,
+        parentId: topic.parentId,
+        locked: topic.locked,
+      },
+      stats,
+      posts: links.map((link) => serializePost(link.post)),
+      total: stats.memberCount,
+      limit,
+      offset,
+      hasMore: offset + links.length < stats.memberCount,
+    });
+  } catch (error) {
+    console.error("Error fetching topic:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch topic" },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename, describe, recolor or (un)lock a topic
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdmin(request)) {
+      return NextResponse.json({ error: "Admin token required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { name, description, color, locked } = await request.json();
+
+    if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+      return NextResponse.json({ error: "name must be a non-empty string" }, { status: 400 });
+    }
+    if (description !== undefined && typeof description !== "string") {
+      return NextResponse.json({ error: "description must be a string" }, { status: 400 });
+    }
+    if (color !== undefined && (typeof color !== "string" || !COLOR_PATTERN.test(color))) {
+      return NextResponse.json({ error: "color must be a hex color like #3b82f6" }, { status: 400 });
+    }
+    if (locked !== undefined && typeof locked !== "boolean") {
+      return NextResponse.json({ error: "locked must be a boolean" }, { status: 400 });
+    }
+
+    const topic = await prisma.topic.findUnique({ where: { id } });
+
+    if (!topic) {
+      return NextResponse.json({ error: "Topic not found" }, { status: 404 });
+    }
+    // Re-clusters rebuild subtopics with their parent, so only top-level locks hold
+    if (locked && topic.parentId) {
+      return NextResponse.json(
+        { error: "Only top-level topics can be locked" },
+        { status: 400 }
+      );
+    }
+
+    const changes: TopicChanges = {
+      name: name?.trim(),
+      description: description?.trim(),
+      color,
+      locked,
+    };
+    await updateTopic(id, changes);
+
+    return NextResponse.json({ message: "Topic updated" });
+  } catch (error) {
+    console.error("Error updating topic:", error);
+    return NextResponse.json(
+      { error: "Failed to update topic" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { splitTopic, MAX_SPLIT_PARTS } from "@/lib/curation";
+import { isAdmin } from "@/lib/admin";
+
+// Split a topic into k topics by k-means over its posts
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdmin(request)) {
+      return NextResponse.json({ error: "Admin token required" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { k = 2 } = await request.json();
+
+    if (!Number.isInteger(k) || k < 2 || k > MAX_SPLIT_PARTS) {
+      return NextResponse.json(
+        { error: `k must be an integer between 2 and ${MAX_SPLIT_PARTS}` },
+        { status: 400 }
+      );
+    }
+
+    const topic = await prisma.topic.findUnique({ where: { id } });
+
+    if (!topic) {
+      return NextResponse.json({ error: "Topic not found" }, { status: 404 });
+    }
+
+    const topicIds = await splitTopic(id, k);
+
+    if (topicIds.length === 0) {
+      return NextResponse.json(
+        { error: "Topic posts could not be split" },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({ message: "Topic split", topicIds });
+  } catch (error) {
+    console.error("Error splitting topic:", error);
+    return NextResponse.json(
+      { error: "Failed to split topic" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadTopicBonds } from "@/lib/topics";
+import { BondMethod } from "@/types";
+
+const BOND_METHODS: BondMethod[] = ["centroid", "shared"];
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const method = (searchParams.get("method") || "centroid") as BondMethod;
+    const minStrength = parseFloat(searchParams.get("minStrength") || "0.3");
+
+    if (!BOND_METHODS.includes(method)) {
+      return NextResponse.json(
+        { error: `method must be one of ${BOND_METHODS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (isNaN(minStrength)) {
+      return NextResponse.json(
+        { error: "minStrength must be a number" },
+        { status: 400 }
+      );
+    }
+
+    const bonds = await loadTopicBonds(method, minStrength);
+
+    return NextResponse.json({ bonds, method, minStrength });
+  } catch (error) {
+    console.error("Error fetching topic bonds:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch topic bonds" },
+      { status: 500 }
+    );
+  }
+}
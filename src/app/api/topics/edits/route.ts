@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listTopicEdits } from "@/lib/curation";
+
+// Audit log of manual topic edits, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const topicId = searchParams.get("topicId");
+    const limit = parseInt(searchParams.get("limit") || "50");
+
+    if (isNaN(limit) || limit < 1) {
+      return NextResponse.json(
+        { error: "limit must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ edits: await listTopicEdits(topicId, Math.min(limit, 500)) });
+  } catch (error) {
+    console.error("Error fetching topic edits:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch topic edits" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { diffTopicRuns, listTopicRuns, previousTopicRun } from "@/lib/history";
+
+// Diff two runs. `to` defaults to the latest run and `from` to the run
+// before `to`.
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const to = searchParams.get("to") || (await listTopicRuns(1))[0]?.id;
+    const from = searchParams.get("from") || (to && (await previousTopicRun(to))?.id);
+
+    if (!to || !from) {
+      return NextResponse.json(
+        { error: "Need two clustering runs to compare" },
+        { status: 404 }
+      );
+    }
+
+    const diff = await diffTopicRuns(from, to);
+    if (!diff) {
+      return NextResponse.json(
+        { error: "Run not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(diff);
+  } catch (error) {
+    console.error("Error diffing topic runs:", error);
+    return NextResponse.json(
+      { error: "Failed to diff topic runs" },
+      { status: 500 }
+    );
+  }
+}
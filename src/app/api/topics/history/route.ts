@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listTopicRuns } from "@/lib/history";
+
+export async function GET(request: NextRequest) {
+  try {
+    const limit = parseInt(request.nextUrl.searchParams.get("limit") || "50");
+
+    if (isNaN(limit) || limit < 1) {
+      return NextResponse.json(
+        { error: "limit must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ runs: await listTopicRuns(limit) });
+  } catch (error) {
+    console.error("Error fetching topic runs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch topic runs" },
+      { status: 500 }
+    );
+  }
+}
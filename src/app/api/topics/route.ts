@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
+import { Topic as TopicRow } from "@prisma/client";
 import prisma from "@/lib/db";
+import { Topic } from "@/types";
 
+// Top-level topics, each with its subtopics nested under `children`
 export async function GET() {
   try {
     const [topics, totalPosts] = await Promise.all([
@@ -15,18 +18,31 @@ export async function GET() {
       prisma.post.count(),
     ]);
 
+    const childrenOf: Map<string, TopicRow[]> = new Map();
+    topics.forEach((t) => {
+      if (!t.parentId) return;
+      if (!childrenOf.has(t.parentId)) childrenOf.set(t.parentId, []);
+      childrenOf.get(t.parentId)!.push(t);
+    });
+
+    const toTopic = (t: TopicRow): Topic => ({
+      id: t.id,
+      name: t.name,
+      description: t.description ?? undefined,
+      color: t.color,
+      posX: t.posX ?? undefined,
+      posY: t.posY ?? undefined,
+      posZ: t.posZ ?? undefined,
+      postCount: t.postCount,
+      parentId: t.parentId ?? undefined,
+      locked: t.locked,
+      children: (childrenOf.get(t.id) || []).map(toTopic),
+    });
+    const roots = topics.filter((t) => !t.parentId);
+
     return NextResponse.json({
-      topics: topics.map((t) => ({
-        id: t.id,
-        name: t.name,
-        description: t.description,
-        color: t.color,
-        posX: t.posX,
-        posY: t.posY,
-        posZ: t.posZ,
-        postCount: t.postCount,
-      })),
-      totalTopics: topics.length,
+      topics: roots.map(toTopic),
+      totalTopics: roots.length,
       totalPosts: totalPosts,
     });
   } catch (error) {
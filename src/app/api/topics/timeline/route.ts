@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadTopicTimeline, TIMELINE_BUCKETS } from "@/lib/timeline";
+import { TimelineBucket } from "@/types";
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const bucket = (searchParams.get("bucket") || "day") as TimelineBucket;
+    const from = searchParams.get("from") ? new Date(searchParams.get("from")!) : undefined;
+    const to = searchParams.get("to") ? new Date(searchParams.get("to")!) : undefined;
+
+    if (!TIMELINE_BUCKETS.includes(bucket)) {
+      return NextResponse.json(
+        { error: `bucket must be one of ${TIMELINE_BUCKETS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json(
+        { error: "from/to must be valid dates" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await loadTopicTimeline(bucket, from, to));
+  } catch (error) {
+    console.error("Error fetching topic timeline:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch topic timeline" },
+      { status: 500 }
+    );
+  }
+}
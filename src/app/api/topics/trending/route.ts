@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadTopicTrends } from "@/lib/trending";
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const limit = searchParams.get("limit") ? parseInt(searchParams.get("limit")!) : undefined;
+
+    if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+      return NextResponse.json(
+        { error: "limit must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    const trends = await loadTopicTrends();
+    return NextResponse.json({ trends: trends.slice(0, limit) });
+  } catch (error) {
+    console.error("Error fetching trending topics:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch trending topics" },
+      { status: 500 }
+    );
+  }
+}
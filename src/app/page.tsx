@@ -1,11 +1,44 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { Fragment, useState, useEffect, useCallback, useMemo, useRef } from "react";
 import dynamic from "next/dynamic";
-import { Topic, Post, GraphData, GraphNode, SearchResult } from "@/types";
-import { buildGraphData } from "@/lib/clustering";
+import { Color } from "three";
+import {
+  Topic,
+  Post,
+  GraphData,
+  GraphNode,
+  SearchResult,
+  SearchFilters,
+  Submolt,
+  GroupBy,
+  SearchResponse,
+  GraphLink,
+  BondMethod,
+  GalaxyData,
+  GalaxyHeader,
+  GalaxyChunk,
+  CameraPose,
+  MapMarker,
+  PostNeighbor,
+  AuthorProfile,
+  TimelineBucket,
+  TopicTimeline,
+  TopicTrend,
+} from "@/types";
+import {
+  buildGraphData,
+  compactGraphPosts,
+  decodeCompactGraph,
+  galaxyAtTime,
+  graphAtTime,
+} from "@/lib/clustering";
 import SearchOverlay from "@/components/SearchOverlay";
 import PostDetail from "@/components/PostDetail";
+import Timeline from "@/components/Timeline";
+import TopicHistory from "@/components/TopicHistory";
+import AuthorPanel from "@/components/AuthorPanel";
+import TopicEditor from "@/components/TopicEditor";
 
 // Dynamic import for 3D component (no SSR)
 const MolecularMap = dynamic(() => import("@/components/MolecularMap"), {
@@ -17,9 +50,139 @@ const MolecularMap = dynamic(() => import("@/components/MolecularMap"), {
   ),
 });
 
+const TRENDING_GROWTH = 2; // Topics posting at twice their usual pace (or bursting) pulse
+const ADMIN_TOKEN_KEY = "moltbook-admin-token"; // Local storage key of the topic curation token
+
+// A topic plus the other topics its posts are softly assigned to, so
+// cross-topic bonds have both ends on the map
+function withRelatedTopics(topic: Topic, topicPosts: Post[], allTopics: Topic[]): Topic[] {
+  const relatedIds = new Set(topicPosts.flatMap((p) => p.topics?.map((t) => t.id) || []));
+  return [topic, ...allTopics.filter((t) => t.id !== topic.id && relatedIds.has(t.id))];
+}
+
+// View state carried in the URL: ?topic=<id>, ?post=<id>, ?q=<query> and
+// ?cam=<px,py,pz,tx,ty,tz>
+interface ViewState {
+  topicId: string | null;
+  postId: string | null;
+  query: string;
+  camera: CameraPose | null;
+}
+
+function parseViewUrl(search: string): ViewState {
+  const params = new URLSearchParams(search);
+  const cam = (params.get("cam") || "").split(",").map(Number);
+
+  return {
+    topicId: params.get("topic"),
+    postId: params.get("post"),
+    query: params.get("q") || "",
+    camera:
+      cam.length === 6 && cam.every((v) => !isNaN(v))
+        ? { position: [cam[0], cam[1], cam[2]], target: [cam[3], cam[4], cam[5]] }
+        : null,
+  };
+}
+
+function viewUrl(state: ViewState): string {
+  const params = new URLSearchParams();
+  if (state.topicId) params.set("topic", state.topicId);
+  if (state.postId) params.set("post", state.postId);
+  if (state.query) params.set("q", state.query);
+  if (state.camera) params.set("cam", [...state.camera.position, ...state.camera.target].join(","));
+
+  const search = params.toString();
+  return search ? `/?${search}` : "/";
+}
+
+// Body-less posts of a topic, submolt or author, from the compact graph endpoint
+async function fetchGroupPosts(
+  param: "topicId" | "submoltId" | "authorId",
+  id: string
+): Promise<Post[]> {
+  const res = await fetch(`/api/graph?format=binary&${param}=${id}`);
+  if (!res.ok) {
+    throw new Error("Failed to fetch graph");
+  }
+  return compactGraphPosts(decodeCompactGraph(await res.arrayBuffer()));
+}
+
+// Read the streamed point cloud, handing back render-ready buffers after
+// every chunk so the galaxy fills in while it loads
+async function streamGalaxy(onUpdate: (galaxy: GalaxyData) => void) {
+  const res = await fetch("/api/galaxy");
+  if (!res.ok || !res.body) {
+    throw new Error("Failed to fetch galaxy");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let header: GalaxyHeader | null = null;
+  let topicColors: Color[] = [];
+  const ids: string[] = [];
+  const labels: string[] = [];
+  const positions: number[] = [];
+  const topics: number[] = [];
+  const times: number[] = [];
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop()!;
+
+    let changed = false;
+    for (const line of lines) {
+      if (!line) continue;
+      if (!header) {
+        header = JSON.parse(line) as GalaxyHeader;
+        topicColors = header.topics.map((t) => new Color(t.color));
+        continue;
+      }
+      const chunk = JSON.parse(line) as GalaxyChunk;
+      ids.push(...chunk.ids);
+      labels.push(...chunk.labels);
+      positions.push(...chunk.positions);
+      topics.push(...chunk.topics);
+      times.push(...chunk.times);
+      changed = true;
+    }
+
+    if (changed && header) {
+      const fallback = new Color("#94a3b8");
+      const colors = new Float32Array(topics.length * 3);
+      topics.forEach((topicIdx, i) => {
+        const color = topicColors[topicIdx] || fallback;
+        colors.set([color.r, color.g, color.b], i * 3);
+      });
+
+      onUpdate({
+        ids: [...ids],
+        labels: [...labels],
+        positions: new Float32Array(positions),
+        colors,
+        topicIds: topics.map((topicIdx) => header!.topics[topicIdx]?.id ?? null),
+        times: new Float64Array(times.map((t) => t * 1000)),
+        total: header.total,
+      });
+    }
+  }
+}
+
 export default function Home() {
   const [topics, setTopics] = useState<Topic[]>([]);
-  const [posts, setPosts] = useState<Post[]>([]);
+  const [submolts, setSubmolts] = useState<Submolt[]>([]);
+  const [groupBy, setGroupBy] = useState<GroupBy>("topic");
+  const [showOverlay, setShowOverlay] = useState(false);
+  const [bonds, setBonds] = useState<GraphLink[]>([]);
+  const [trends, setTrends] = useState<TopicTrend[]>([]);
+  const [bondMethod, setBondMethod] = useState<BondMethod>("centroid");
+  const [bondThreshold, setBondThreshold] = useState(0.6);
+  const [showAllPosts, setShowAllPosts] = useState(false);
+  const [galaxy, setGalaxy] = useState<GalaxyData | null>(null);
   const [graphData, setGraphData] = useState<GraphData>({ nodes: [], links: [] });
   const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null);
   const [selectedTopicId, setSelectedTopicId] = useState<string | null>(null);
@@ -28,38 +191,95 @@ export default function Home() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [totalCounts, setTotalCounts] = useState({ topics: 0, posts: 0 });
+  const [searchQuery, setSearchQuery] = useState("");
+  const [restoredCamera, setRestoredCamera] = useState<CameraPose | null>(null);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [timeline, setTimeline] = useState<TopicTimeline | null>(null);
+  const [timelineIndex, setTimelineIndex] = useState(0);
+  const [timelineWindow, setTimelineWindow] = useState(7);
+  const [showHistory, setShowHistory] = useState(false);
+  const [authorId, setAuthorId] = useState<string | null>(null);
+  const [relatedMarker, setRelatedMarker] = useState<MapMarker | null>(null);
+  const [editingTopicId, setEditingTopicId] = useState<string | null>(null);
+  const [adminToken, setAdminToken] = useState<string | null>(null);
+
+  // URL sync bookkeeping: the last camera reported by the map, the selection
+  // last pushed to history, and whether a URL is being applied right now
+  const cameraRef = useRef<CameraPose | null>(null);
+  const lastSelection = useRef<string | null>(null);
+  const applyingUrl = useRef(true);
+
+  // Every topic and subtopic by id
+  const topicsById = useMemo(() => {
+    const byId = new Map<string, Topic>();
+    const visit = (topic: Topic) => {
+      byId.set(topic.id, topic);
+      topic.children?.forEach(visit);
+    };
+    topics.forEach(visit);
+    return byId;
+  }, [topics]);
 
-  // Hot topics sorted by post count
-  const hotTopics = [...topics].sort((a, b) => b.postCount - a.postCount);
+  const editingTopic = editingTopicId ? topicsById.get(editingTopicId) : undefined;
+
+  // Hot topics ranked by velocity, then by all-time post count
+  const trendsById = new Map(trends.map((t) => [t.topicId, t]));
+  const hotTopics = [...topics].sort(
+    (a, b) =>
+      (trendsById.get(b.id)?.velocity ?? 0) - (trendsById.get(a.id)?.velocity ?? 0) ||
+      b.postCount - a.postCount
+  );
+  const trendingIds = trends
+    .filter((t) => t.isBursting || (t.lastDay > 0 && t.growth >= TRENDING_GROWTH))
+    .map((t) => t.topicId);
+
+  // Overview graph of all topics and/or submolts for the current grouping
+  const buildOverviewGraph = useCallback(
+    (topicList: Topic[], submoltList: Submolt[], bondList: GraphLink[]) =>
+      buildGraphData(topicList, [], "topics", {
+        groupBy,
+        submolts: submoltList,
+        overlay: showOverlay,
+        bonds: bondList,
+        bondThreshold,
+      }),
+    [groupBy, showOverlay, bondThreshold]
+  );
 
   // Fetch data function
   const fetchData = useCallback(async (initial = false) => {
     try {
-      const [topicsRes, postsRes] = await Promise.all([
+      const [topicsRes, submoltsRes, bondsRes, trendsRes] = await Promise.all([
         fetch("/api/topics"),
-        fetch("/api/posts"),
+        fetch("/api/submolts"),
+        fetch(`/api/topics/bonds?method=${bondMethod}`),
+        fetch("/api/topics/trending"),
       ]);
 
-      if (!topicsRes.ok || !postsRes.ok) {
+      if (!topicsRes.ok || !submoltsRes.ok || !bondsRes.ok || !trendsRes.ok) {
         throw new Error("Failed to fetch data");
       }
 
       const topicsData = await topicsRes.json();
-      const postsData = await postsRes.json();
+      const submoltsData = await submoltsRes.json();
+      const bondsData = await bondsRes.json();
+      const trendsData = await trendsRes.json();
 
       setTopics(topicsData.topics || []);
-      setPosts(postsData.posts || []);
+      setSubmolts(submoltsData.submolts || []);
+      setBonds(bondsData.bonds || []);
+      setTrends(trendsData.trends || []);
       setTotalCounts({
         topics: topicsData.totalTopics || topicsData.topics?.length || 0,
         posts: topicsData.totalPosts || 0,
       });
 
-      // Only rebuild graph on initial load or if not viewing a specific topic
-      if (initial || !selectedTopicId) {
-        const graph = buildGraphData(
+      // Only rebuild graph on initial load or if not viewing a specific topic or author
+      if (initial || (!selectedTopicId && !authorId)) {
+        const graph = buildOverviewGraph(
           topicsData.topics || [],
-          postsData.posts || [],
-          "topics"
+          submoltsData.submolts || [],
+          bondsData.bonds || []
         );
         setGraphData(graph);
       }
@@ -73,13 +293,33 @@ export default function Home() {
         setIsLoading(false);
       }
     }
-  }, [selectedTopicId]);
+  }, [selectedTopicId, authorId, buildOverviewGraph, bondMethod]);
 
   // Initial fetch
   useEffect(() => {
     fetchData(true);
   }, []);
 
+  // Admins open the app once with #admin=TOKEN; the token is kept in local
+  // storage and the topic editor is only offered once the server accepts it
+  useEffect(() => {
+    const fromHash = new URLSearchParams(window.location.hash.slice(1)).get("admin");
+    if (fromHash) {
+      localStorage.setItem(ADMIN_TOKEN_KEY, fromHash);
+      window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    }
+    const token = fromHash ?? localStorage.getItem(ADMIN_TOKEN_KEY);
+    if (!token) return;
+
+    fetch("/api/admin", { headers: { Authorization: `Bearer ${token}` } })
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.admin) setAdminToken(token);
+        else localStorage.removeItem(ADMIN_TOKEN_KEY);
+      })
+      .catch(console.error);
+  }, []);
+
   // Auto-refresh counts every 10 seconds
   useEffect(() => {
     const interval = setInterval(() => {
@@ -88,102 +328,166 @@ export default function Home() {
     return () => clearInterval(interval);
   }, [fetchData]);
 
+  // What an open topic shows: its subtopics, or once there are none, its
+  // posts along with the related topics on the same level
+  const buildTopicGraph = useCallback(
+    async (topic: Topic): Promise<GraphData> => {
+      if (topic.children?.length) {
+        return buildGraphData(topic.children, [], "topics");
+      }
+
+      const topicPosts = await fetchGroupPosts("topicId", topic.id);
+      const peers = topic.parentId ? topicsById.get(topic.parentId)?.children ?? [] : topics;
+      return buildGraphData(withRelatedTopics(topic, topicPosts, peers), topicPosts, "all", {
+        bonds,
+        bondThreshold,
+      });
+    },
+    [topics, topicsById, bonds, bondThreshold]
+  );
+
   // Handle node click
   const handleNodeClick = useCallback((node: GraphNode) => {
+    applyingUrl.current = false;
     setSelectedNode(node);
     setHighlightedIds([node.id]);
     setFocusTarget({ x: node.x, y: node.y, z: node.z });
 
-    if (node.type === "topic") {
-      // Toggle topic selection
-      setSelectedTopicId((prev) => (prev === node.id ? null : node.id));
-
-      // Fetch posts for this topic if selecting
-      if (selectedTopicId !== node.id) {
-        fetch(`/api/posts?topicId=${node.id}`)
-          .then((res) => res.json())
-          .then((data) => {
-            const topicPosts = data.posts || [];
-            // Update graph to show this topic's posts
-            const topicNode = topics.find((t) => t.id === node.id);
-            if (topicNode) {
-              const newGraph = buildGraphData([topicNode], topicPosts, "all");
-              setGraphData(newGraph);
-            }
-          })
+    if (node.type === "topic" || node.type === "submolt") {
+      // Open the topic/submolt; clicking the open one again goes up a level
+      const nextId =
+        selectedTopicId !== node.id ? node.id : topicsById.get(node.id)?.parentId ?? null;
+      setSelectedTopicId(nextId);
+
+      const nextTopic = nextId ? topicsById.get(nextId) : undefined;
+      const submolt = submolts.find((s) => s.id === nextId);
+      if (nextTopic) {
+        buildTopicGraph(nextTopic).then(setGraphData).catch(console.error);
+      } else if (submolt) {
+        fetchGroupPosts("submoltId", submolt.id)
+          .then((groupPosts) =>
+            setGraphData(
+              buildGraphData([], groupPosts, "all", {
+                groupBy: "submolt",
+                submolts: [submolt],
+              })
+            )
+          )
           .catch(console.error);
       } else {
-        // Reset to topic view
-        const graph = buildGraphData(topics, [], "topics");
-        setGraphData(graph);
+        // Reset to overview
+        setGraphData(buildOverviewGraph(topics, submolts, bonds));
       }
     }
-  }, [selectedTopicId, topics]);
+  }, [selectedTopicId, topics, topicsById, submolts, bonds, buildTopicGraph, buildOverviewGraph]);
 
   // Navigate to topic by ID (from search or hot topics)
-  const navigateToTopic = useCallback((topicId: string) => {
-    const topic = topics.find((t) => t.id === topicId);
+  // When focusPostId is given, the post is selected once the topic's posts
+  // load. With fly = false the camera stays put (e.g. a link restores it).
+  // Resolves once navigation is done, whether or not the topic was found.
+  const navigateToTopic = useCallback(async (topicId: string, focusPostId?: string, fly = true) => {
+    const topic = topicsById.get(topicId);
     if (topic) {
       // Find or create the node
       const node = graphData.nodes.find((n) => n.id === topicId);
-      if (node) {
+      if (node && !focusPostId && fly) {
         handleNodeClick(node);
       } else {
         // Topic not in current graph, set focus and highlight
-        setHighlightedIds([topicId]);
-        setFocusTarget({
-          x: topic.posX || 0,
-          y: topic.posY || 0,
-          z: topic.posZ || 0,
-        });
+        setHighlightedIds([focusPostId ?? topicId]);
+        if (fly) {
+          setFocusTarget({
+            x: topic.posX || 0,
+            y: topic.posY || 0,
+            z: topic.posZ || 0,
+          });
+        }
         setSelectedTopicId(topicId);
 
-        // Fetch posts for this topic
-        fetch(`/api/posts?topicId=${topicId}`)
-          .then((res) => res.json())
-          .then((data) => {
-            const topicPosts = data.posts || [];
-            const newGraph = buildGraphData([topic], topicPosts, "all");
+        await buildTopicGraph(topic)
+          .then((newGraph) => {
             setGraphData(newGraph);
+
+            const postNode = newGraph.nodes.find((n) => n.id === focusPostId);
+            if (postNode) {
+              setSelectedNode(postNode);
+              if (fly) setFocusTarget({ x: postNode.x, y: postNode.y, z: postNode.z });
+            }
           })
           .catch(console.error);
       }
     }
-  }, [topics, graphData.nodes, handleNodeClick]);
+  }, [topicsById, graphData.nodes, handleNodeClick, buildTopicGraph]);
+
+  // Focus any post: in place if it's on the map, else via its strongest topic.
+  // Resolves once navigation is done, whether or not the post was found.
+  const navigateToPost = useCallback(async (postId: string, fly = true) => {
+    setHighlightedIds([postId]);
+
+    const node = graphData.nodes.find((n) => n.id === postId);
+    if (node) {
+      if (fly) setFocusTarget({ x: node.x, y: node.y, z: node.z });
+      setSelectedNode(node);
+      return;
+    }
+
+    await fetch(`/api/posts/${postId}?neighbors=0`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        const post: Post | undefined = data?.post;
+        if (!post) return;
+
+        // Open the post's most relevant topic that has no subtopics
+        const topic =
+          post.topics?.find((t) => !topicsById.get(t.id)?.children?.length) ?? post.topics?.[0];
+        if (topic) {
+          return navigateToTopic(topic.id, post.id, fly);
+        } else {
+          // Unclustered post: just fly to it
+          const postNode: GraphNode = {
+            id: post.id,
+            type: "post",
+            label: post.title || post.content.slice(0, 50) + "...",
+            color: "#94a3b8",
+            size: 0.5,
+            x: post.posX ?? 0,
+            y: post.posY ?? 0,
+            z: post.posZ ?? 0,
+            data: post,
+          };
+          if (fly) setFocusTarget({ x: postNode.x, y: postNode.y, z: postNode.z });
+          setSelectedNode(postNode);
+        }
+      })
+      .catch(console.error);
+  }, [graphData.nodes, topicsById, navigateToTopic]);
 
   // Handle search
-  const handleSearch = useCallback(async (query: string): Promise<SearchResult[]> => {
-    const res = await fetch(`/api/search?q=${encodeURIComponent(query)}`);
-    const data = await res.json();
-    return data.results || [];
-  }, []);
+  const handleSearch = useCallback(
+    async (query: string, filters: SearchFilters, offset: number): Promise<SearchResponse> => {
+      const params = new URLSearchParams({ q: query, offset: String(offset) });
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== "") params.set(key, String(value));
+      });
+
+      const res = await fetch(`/api/search?${params}`);
+      const data = await res.json();
+      return { results: data.results || [], mode: data.mode, hasMore: !!data.hasMore };
+    },
+    []
+  );
 
   // Handle search result click - navigate to location
   const handleSearchResultClick = useCallback((result: SearchResult) => {
+    applyingUrl.current = false;
     setHighlightedIds([result.id]);
 
     if (result.type === "topic") {
       navigateToTopic(result.id);
     } else {
-      // For posts, find the post and navigate to it
-      const node = graphData.nodes.find((n) => n.id === result.id);
-      if (node) {
-        setFocusTarget({ x: node.x, y: node.y, z: node.z });
-        setSelectedNode(node);
-      } else {
-        // Post not in current view - fetch its topic and navigate there
-        fetch(`/api/posts?limit=1`)
-          .then((res) => res.json())
-          .then((data) => {
-            const post = data.posts?.find((p: Post) => p.id === result.id);
-            if (post?.topics?.[0]) {
-              navigateToTopic(post.topics[0].id);
-            }
-          })
-          .catch(console.error);
-      }
+      navigateToPost(result.id);
     }
-  }, [graphData.nodes, navigateToTopic]);
+  }, [navigateToTopic, navigateToPost]);
 
   // Handle topic click from search overlay
   const handleSearchTopicClick = useCallback((topicId: string) => {
@@ -201,15 +505,283 @@ export default function Home() {
     navigateToTopic(topicId);
   }, [navigateToTopic]);
 
+  // Mark a related post on the map while it's hovered in the detail panel
+  const handleRelatedHover = useCallback((neighbor: PostNeighbor | null) => {
+    if (!neighbor || neighbor.posX == null || neighbor.posY == null || neighbor.posZ == null) {
+      setRelatedMarker(null);
+      return;
+    }
+    setRelatedMarker({ x: neighbor.posX, y: neighbor.posY, z: neighbor.posZ, color: neighbor.color });
+  }, []);
+
+  // Open an author's panel and show their posts with the topics they fall in
+  const handleAuthorClick = useCallback(
+    (id: string) => {
+      setAuthorId(id);
+      setSelectedTopicId(null);
+      fetchGroupPosts("authorId", id)
+        .then((authorPosts) => {
+          const topicIds = new Set(authorPosts.flatMap((p) => p.topics?.map((t) => t.id) || []));
+          setGraphData(
+            buildGraphData(
+              topics.filter((t) => topicIds.has(t.id)),
+              authorPosts,
+              "all",
+              { bonds, bondThreshold }
+            )
+          );
+        })
+        .catch(console.error);
+    },
+    [topics, bonds, bondThreshold]
+  );
+
+  // Highlight every post by the author once the profile is in
+  const handleAuthorLoad = useCallback((profile: AuthorProfile) => {
+    setHighlightedIds(profile.postIds);
+  }, []);
+
+  const handleAuthorTopicClick = useCallback(
+    (topicId: string) => {
+      setAuthorId(null);
+      navigateToTopic(topicId);
+    },
+    [navigateToTopic]
+  );
+
   // Reset view
   const handleReset = useCallback(() => {
     setSelectedNode(null);
     setSelectedTopicId(null);
     setHighlightedIds([]);
     setFocusTarget(null);
-    const graph = buildGraphData(topics, [], "topics");
-    setGraphData(graph);
-  }, [topics]);
+    setGraphData(buildOverviewGraph(topics, submolts, bonds));
+  }, [topics, submolts, bonds, buildOverviewGraph]);
+
+  // After a curation edit, reload the topics and go back to the overview
+  // with the editor still open
+  const handleTopicEdited = useCallback(
+    (topicId: string) => {
+      setEditingTopicId(topicId);
+      handleReset();
+      fetchData(true);
+    },
+    [handleReset, fetchData]
+  );
+
+  // Restore a view from the URL. A saved camera pose replaces the usual
+  // fly-to animation.
+  const applyViewState = useCallback(
+    (state: ViewState) => {
+      const fly = !state.camera;
+      applyingUrl.current = true;
+      lastSelection.current = state.postId
+        ? `post:${state.postId}`
+        : state.topicId
+          ? `topic:${state.topicId}`
+          : "";
+
+      let navigation: Promise<void> = Promise.resolve();
+      if (state.postId) {
+        navigation = navigateToPost(state.postId, fly);
+      } else if (state.topicId) {
+        if (state.topicId !== selectedTopicId) {
+          navigation = navigateToTopic(state.topicId, undefined, fly);
+        }
+      } else {
+        handleReset();
+      }
+      // Resume URL syncing even if the linked topic or post no longer exists
+      navigation.finally(() => {
+        applyingUrl.current = false;
+      });
+      setSearchQuery(state.query);
+      setRestoredCamera(state.camera);
+      cameraRef.current = state.camera;
+    },
+    [navigateToPost, navigateToTopic, handleReset, selectedTopicId]
+  );
+
+  // Apply the URL once the topics have loaded
+  const restoredUrl = useRef(false);
+  useEffect(() => {
+    if (isLoading || restoredUrl.current) return;
+    restoredUrl.current = true;
+    applyViewState(parseViewUrl(window.location.search));
+  }, [isLoading, applyViewState]);
+
+  // Back/forward
+  useEffect(() => {
+    const handlePopState = () => applyViewState(parseViewUrl(window.location.search));
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, [applyViewState]);
+
+  const currentViewUrl = useCallback(() => {
+    const postId = selectedNode?.type === "post" ? selectedNode.id : null;
+    return viewUrl({
+      topicId: postId ? null : selectedTopicId,
+      postId,
+      query: searchQuery,
+      camera: cameraRef.current,
+    });
+  }, [selectedNode, selectedTopicId, searchQuery]);
+
+  // Mirror the view into the URL: a new selection is a history entry, while
+  // query and camera changes update the current one
+  useEffect(() => {
+    if (!restoredUrl.current) return;
+
+    const postId = selectedNode?.type === "post" ? selectedNode.id : null;
+    const selection = postId ? `post:${postId}` : selectedTopicId ? `topic:${selectedTopicId}` : "";
+
+    // The URL already describes the view being applied
+    if (applyingUrl.current) {
+      if (selection === lastSelection.current) applyingUrl.current = false;
+      return;
+    }
+
+    if (selection !== lastSelection.current) {
+      cameraRef.current = null; // The camera flies to the new selection
+      lastSelection.current = selection;
+      window.history.pushState(null, "", currentViewUrl());
+    } else if (currentViewUrl() !== window.location.pathname + window.location.search) {
+      window.history.replaceState(null, "", currentViewUrl());
+    }
+  }, [selectedNode, selectedTopicId, currentViewUrl]);
+
+  const handleCameraChange = useCallback(
+    (pose: CameraPose) => {
+      cameraRef.current = pose;
+      if (!applyingUrl.current) {
+        window.history.replaceState(null, "", currentViewUrl());
+      }
+    },
+    [currentViewUrl]
+  );
+
+  // Switch grouping / overlay: back to the overview with the new layout
+  const handleGroupingChange = useCallback(
+    (nextGroupBy: GroupBy, nextOverlay: boolean) => {
+      setGroupBy(nextGroupBy);
+      setShowOverlay(nextOverlay);
+      setSelectedNode(null);
+      setSelectedTopicId(null);
+      setHighlightedIds([]);
+      setGraphData(
+        buildGraphData(topics, [], "topics", {
+          groupBy: nextGroupBy,
+          submolts,
+          overlay: nextOverlay,
+          bonds,
+          bondThreshold,
+        })
+      );
+    },
+    [topics, submolts, bonds, bondThreshold]
+  );
+
+  // Load per-topic counts for time-lapse playback, starting at the last bucket
+  const loadTimeline = useCallback(async (bucket: TimelineBucket) => {
+    try {
+      const res = await fetch(`/api/topics/timeline?bucket=${bucket}`);
+      const data: TopicTimeline = await res.json();
+      setTimeline(data);
+      setTimelineIndex(Math.max(data.buckets.length - 1, 0));
+    } catch (err) {
+      console.error("Error fetching topic timeline:", err);
+    }
+  }, []);
+
+  const handleToggleTimeline = useCallback(() => {
+    setShowTimeline((prev) => !prev);
+    if (!timeline) loadTimeline("day");
+  }, [timeline, loadTimeline]);
+
+  // Topic sizes at the current time: cumulative post counts up to the bucket
+  const timelineCounts = useMemo(() => {
+    if (!showTimeline || !timeline) return null;
+    return new Map(
+      timeline.topics.map(({ topicId, counts }) => [
+        topicId,
+        counts.slice(0, timelineIndex + 1).reduce((sum, c) => sum + c, 0),
+      ])
+    );
+  }, [showTimeline, timeline, timelineIndex]);
+
+  // Posts shown at the current time: the last `timelineWindow` buckets
+  const timeWindow = useMemo(() => {
+    if (!timelineCounts || !timeline || timeline.buckets.length === 0) return null;
+    const { buckets } = timeline;
+    const next = buckets[timelineIndex + 1];
+    return {
+      from: new Date(buckets[Math.max(timelineIndex - timelineWindow + 1, 0)]).getTime(),
+      to: next ? new Date(next).getTime() - 1 : Infinity,
+    };
+  }, [timelineCounts, timeline, timelineIndex, timelineWindow]);
+
+  const displayGraph = useMemo(
+    () => (timelineCounts && timeWindow ? graphAtTime(graphData, timelineCounts, timeWindow) : graphData),
+    [graphData, timelineCounts, timeWindow]
+  );
+  const visibleGalaxy = showAllPosts ? galaxy : null;
+  const displayGalaxy = useMemo(
+    () => (visibleGalaxy && timeWindow ? galaxyAtTime(visibleGalaxy, timeWindow) : visibleGalaxy),
+    [visibleGalaxy, timeWindow]
+  );
+
+  // Show or hide every post as a point cloud in the overview
+  const handleToggleAllPosts = useCallback(() => {
+    setShowAllPosts((prev) => !prev);
+    if (!galaxy) {
+      streamGalaxy(setGalaxy).catch(console.error);
+    }
+  }, [galaxy]);
+
+  // Change how topic bonds are scored or which are strong enough to draw
+  const handleBondsChange = useCallback(
+    async (nextMethod: BondMethod, nextThreshold: number) => {
+      setBondMethod(nextMethod);
+      setBondThreshold(nextThreshold);
+
+      let bondList = bonds;
+      if (nextMethod !== bondMethod) {
+        try {
+          const res = await fetch(`/api/topics/bonds?method=${nextMethod}`);
+          const data = await res.json();
+          bondList = data.bonds || [];
+          setBonds(bondList);
+        } catch (err) {
+          console.error("Error fetching topic bonds:", err);
+        }
+      }
+
+      if (!selectedTopicId) {
+        setGraphData(
+          buildGraphData(topics, [], "topics", {
+            groupBy,
+            submolts,
+            overlay: showOverlay,
+            bonds: bondList,
+            bondThreshold: nextThreshold,
+          })
+        );
+      }
+    },
+    [topics, submolts, bonds, bondMethod, selectedTopicId, groupBy, showOverlay]
+  );
+
+  // Breadcrumbs down to the open topic (or the open submolt)
+  const breadcrumbs: Array<{ id: string; name: string }> = [];
+  for (
+    let topic = selectedTopicId ? topicsById.get(selectedTopicId) : undefined;
+    topic;
+    topic = topic.parentId ? topicsById.get(topic.parentId) : undefined
+  ) {
+    breadcrumbs.unshift({ id: topic.id, name: topic.name });
+  }
+  const openSubmolt = submolts.find((s) => s.id === selectedTopicId);
+  if (openSubmolt) breadcrumbs.push({ id: openSubmolt.id, name: openSubmolt.displayName });
 
   if (isLoading) {
     return (
@@ -246,11 +818,16 @@ export default function Home() {
     <main className="w-screen h-screen relative overflow-hidden">
       {/* 3D Visualization */}
       <MolecularMap
-        data={graphData}
+        data={displayGraph}
         onNodeClick={handleNodeClick}
         highlightedIds={highlightedIds}
+        trendingIds={trendingIds}
         selectedTopicId={selectedTopicId || undefined}
         focusTarget={focusTarget}
+        marker={relatedMarker}
+        galaxy={displayGalaxy}
+        cameraPose={restoredCamera}
+        onCameraChange={handleCameraChange}
       />
 
       {/* Search Overlay */}
@@ -259,29 +836,171 @@ export default function Home() {
         onResultClick={handleSearchResultClick}
         onTopicClick={handleSearchTopicClick}
         onClear={handleClearSearch}
+        query={searchQuery}
+        onQueryChange={setSearchQuery}
         hotTopics={hotTopics}
+        trends={trendsById}
+        topics={topics}
       />
 
-      {/* Post/Topic Detail Panel */}
-      <PostDetail
-        node={selectedNode}
-        onClose={() => setSelectedNode(null)}
-        onTopicClick={handleDetailTopicClick}
-      />
+      {/* Author panel, opened from a post's byline, the topic editor, or the
+          Post/Topic Detail Panel */}
+      {authorId ? (
+        <AuthorPanel
+          authorId={authorId}
+          onLoad={handleAuthorLoad}
+          onTopicClick={handleAuthorTopicClick}
+          onClose={() => {
+            setAuthorId(null);
+            handleReset();
+          }}
+        />
+      ) : editingTopic && adminToken ? (
+        <TopicEditor
+          key={editingTopic.id}
+          topic={editingTopic}
+          adminToken={adminToken}
+          peers={(editingTopic.parentId
+            ? topicsById.get(editingTopic.parentId)?.children ?? []
+            : topics
+          ).filter((t) => t.id !== editingTopic.id)}
+          onChange={handleTopicEdited}
+          onClose={() => setEditingTopicId(null)}
+        />
+      ) : (
+        <PostDetail
+          node={selectedNode}
+          onClose={() => setSelectedNode(null)}
+          onTopicClick={handleDetailTopicClick}
+          onPostClick={navigateToPost}
+          onAuthorClick={handleAuthorClick}
+          onRelatedHover={handleRelatedHover}
+          onEditTopic={adminToken ? setEditingTopicId : undefined}
+        />
+      )}
+
+      {/* Time-lapse */}
+      {showTimeline && timeline && (
+        <Timeline
+          timeline={timeline}
+          index={timelineIndex}
+          onIndexChange={setTimelineIndex}
+          windowSize={timelineWindow}
+          onWindowSizeChange={setTimelineWindow}
+          onBucketChange={loadTimeline}
+          onClose={() => setShowTimeline(false)}
+        />
+      )}
+
+      {/* Topic changes between clustering runs */}
+      {showHistory && (
+        <TopicHistory
+          liveTopicIds={new Set(topics.map((t) => t.id))}
+          onTopicClick={handleDetailTopicClick}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
 
       {/* Controls */}
       <div className="absolute bottom-4 left-4 z-50 flex gap-2">
         {selectedTopicId && (
-          <button
-            onClick={handleReset}
-            className="px-4 py-2 bg-gray-800/90 hover:bg-gray-700/90 text-white rounded-lg backdrop-blur-sm transition-colors flex items-center gap-2"
-          >
-            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
-            </svg>
-            Back to Topics
-          </button>
+          <nav className="flex items-center gap-1.5 px-3 py-2 bg-gray-800/90 rounded-lg backdrop-blur-sm text-sm">
+            <button onClick={handleReset} className="text-gray-400 hover:text-white transition-colors">
+              {groupBy === "topic" ? "All topics" : "All submolts"}
+            </button>
+            {breadcrumbs.map((crumb, i) => (
+              <Fragment key={crumb.id}>
+                <span className="text-gray-600">›</span>
+                {i < breadcrumbs.length - 1 ? (
+                  <button
+                    onClick={() => navigateToTopic(crumb.id)}
+                    className="text-gray-400 hover:text-white transition-colors max-w-40 truncate"
+                  >
+                    {crumb.name}
+                  </button>
+                ) : (
+                  <span className="text-white max-w-40 truncate">{crumb.name}</span>
+                )}
+              </Fragment>
+            ))}
+          </nav>
         )}
+        <div className="flex items-center bg-gray-800/90 rounded-lg backdrop-blur-sm p-1 text-sm">
+          {(["topic", "submolt"] as GroupBy[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => handleGroupingChange(option, showOverlay)}
+              className={`px-3 py-1 rounded-md transition-colors ${
+                groupBy === option ? "bg-blue-600 text-white" : "text-gray-400 hover:text-white"
+              }`}
+            >
+              {option === "topic" ? "Topics" : "Submolts"}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleToggleAllPosts}
+          className={`px-3 py-2 rounded-lg backdrop-blur-sm text-sm transition-colors ${
+            showAllPosts ? "bg-blue-600 text-white" : "bg-gray-800/90 text-gray-300 hover:text-white"
+          }`}
+          title="Show every post as a point cloud"
+        >
+          All posts
+          {showAllPosts && galaxy && galaxy.ids.length < galaxy.total && (
+            <span className="ml-1 text-xs opacity-70">
+              {Math.round((galaxy.ids.length / galaxy.total) * 100)}%
+            </span>
+          )}
+        </button>
+        <button
+          onClick={handleToggleTimeline}
+          className={`px-3 py-2 rounded-lg backdrop-blur-sm text-sm transition-colors ${
+            showTimeline ? "bg-blue-600 text-white" : "bg-gray-800/90 text-gray-300 hover:text-white"
+          }`}
+          title="Play back how topics grew over time"
+        >
+          Time-lapse
+        </button>
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className={`px-3 py-2 rounded-lg backdrop-blur-sm text-sm transition-colors ${
+            showHistory ? "bg-blue-600 text-white" : "bg-gray-800/90 text-gray-300 hover:text-white"
+          }`}
+          title="Compare topics between clustering runs"
+        >
+          History
+        </button>
+        <label className="flex items-center gap-2 px-3 py-2 bg-gray-800/90 rounded-lg backdrop-blur-sm text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showOverlay}
+            onChange={(e) => handleGroupingChange(groupBy, e.target.checked)}
+            className="accent-blue-500"
+          />
+          Submolt ↔ topic links
+        </label>
+        <div className="flex items-center gap-2 px-3 py-2 bg-gray-800/90 rounded-lg backdrop-blur-sm text-sm text-gray-300">
+          <span>Bonds</span>
+          <select
+            value={bondMethod}
+            onChange={(e) => handleBondsChange(e.target.value as BondMethod, bondThreshold)}
+            className="bg-gray-900 text-gray-300 rounded px-1 py-0.5"
+          >
+            <option value="centroid">Similarity</option>
+            <option value="shared">Shared posts</option>
+          </select>
+          <input
+            type="range"
+            min={0.3}
+            max={1}
+            step={0.05}
+            value={bondThreshold}
+            onChange={(e) => handleBondsChange(bondMethod, parseFloat(e.target.value))}
+            className="w-24 accent-blue-500"
+            title="Minimum bond strength"
+          />
+          <span className="w-8 text-gray-500">{bondThreshold.toFixed(2)}</span>
+        </div>
       </div>
 
       {/* Stats */}
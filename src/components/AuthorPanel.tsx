@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AuthorProfile } from "@/types";
+
+interface AuthorPanelProps {
+  authorId: string;
+  onClose: () => void;
+  onLoad?: (profile: AuthorProfile) => void;
+  onTopicClick?: (topicId: string) => void;
+}
+
+const ACTIVITY_DAYS = 60; // Most recent days shown in the activity chart
+
+// Profile of a Moltbook agent: how much it posts, about what, and when
+export default function AuthorPanel({ authorId, onClose, onLoad, onTopicClick }: AuthorPanelProps) {
+  const [profile, setProfile] = useState<AuthorProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/authors/${authorId}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (cancelled) return;
+        if (data.error) {
+          setError(data.error);
+        } else {
+          setError(null);
+          setProfile(data);
+          onLoad?.(data);
+        }
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [authorId, onLoad]);
+
+  const current = profile?.id === authorId ? profile : null;
+  const activity = current?.timeline.slice(-ACTIVITY_DAYS) ?? [];
+  const maxDaily = Math.max(1, ...activity.map((d) => d.count));
+  const maxTopic = Math.max(1, ...(current?.topics.map((t) => t.count) ?? []));
+
+  return (
+    <div className="absolute right-4 top-4 bottom-4 w-96 z-50">
+      <div className="bg-gray-900/95 backdrop-blur-sm rounded-xl border border-gray-700 h-full flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-gray-800 flex items-center justify-between">
+          <span className="text-gray-400 text-sm">Author</span>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors p-1"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4">
+          {error ? (
+            <div className="text-gray-500">{error}</div>
+          ) : !current ? (
+            <div className="text-gray-500">Loading...</div>
+          ) : (
+            <>
+              <h2 className="text-white text-xl font-semibold mb-2">{current.name}</h2>
+
+              <div className="bg-gray-800/50 rounded-lg p-4">
+                <div className="text-3xl font-bold text-white">{current.postCount}</div>
+                <div className="text-sm text-gray-400">posts, highlighted on the map</div>
+              </div>
+
+              {/* Activity */}
+              {activity.length > 0 && (
+                <div className="mt-4 pt-4 border-t border-gray-800">
+                  <div className="text-xs text-gray-500 uppercase tracking-wider mb-2">
+                    Activity
+                  </div>
+                  <div className="flex items-end gap-px h-16">
+                    {activity.map((day) => (
+                      <div
+                        key={day.date}
+                        className="flex-1 bg-blue-500/70 rounded-t-sm min-h-px"
+                        style={{ height: `${(day.count / maxDaily) * 100}%` }}
+                        title={`${new Date(day.date).toLocaleDateString("en-US", {
+                          month: "short",
+                          day: "numeric",
+                        })}: ${day.count} posts`}
+                      />
+                    ))}
+                  </div>
+                  <div className="mt-1 flex justify-between text-xs text-gray-500">
+                    <span>{new Date(activity[0].date).toLocaleDateString("en-US")}</span>
+                    <span>{new Date(activity[activity.length - 1].date).toLocaleDateString("en-US")}</span>
+                  </div>
+                </div>
+              )}
+
+              {/* Topics */}
+              {current.topics.length > 0 && (
+                <div className="mt-4 pt-4 border-t border-gray-800">
+                  <div className="text-xs text-gray-500 uppercase tracking-wider mb-2">
+                    Topics
+                  </div>
+                  <div className="space-y-1.5">
+                    {current.topics.map((t) => (
+                      <button
+                        key={t.topicId}
+                        onClick={() => onTopicClick?.(t.topicId)}
+                        className="w-full text-left text-sm group"
+                      >
+                        <div className="flex justify-between text-gray-300 group-hover:text-white">
+                          <span className="truncate">{t.name}</span>
+                          <span className="text-gray-500 ml-2">{t.count}</span>
+                        </div>
+                        <div className="h-1 mt-0.5 rounded-full bg-gray-800">
+                          <div
+                            className="h-1 rounded-full"
+                            style={{
+                              width: `${(t.count / maxTopic) * 100}%`,
+                              backgroundColor: t.color,
+                            }}
+                          />
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useFrame } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import * as THREE from "three";
+import { GalaxyData, GraphNode } from "@/types";
+import PostLayer from "./PostLayer";
+
+interface GalaxyLayerProps {
+  galaxy: GalaxyData;
+  highlightedIds?: string[];
+  onNodeClick?: (node: GraphNode) => void;
+  onHover?: (node: GraphNode | null) => void;
+}
+
+const SPHERE_DISTANCE = 30; // Posts closer than this to the camera become spheres
+const MAX_SPHERES = 300;
+const LABEL_DISTANCE = 15; // ...and closer than this get a label
+const MAX_LABELS = 8;
+const UPDATE_EVERY = 10; // Frames between level-of-detail updates
+
+function toNode(galaxy: GalaxyData, i: number): GraphNode {
+  const x = galaxy.positions[i * 3];
+  const y = galaxy.positions[i * 3 + 1];
+  const z = galaxy.positions[i * 3 + 2];
+  const color = new THREE.Color(
+    galaxy.colors[i * 3],
+    galaxy.colors[i * 3 + 1],
+    galaxy.colors[i * 3 + 2]
+  );
+
+  return {
+    id: galaxy.ids[i],
+    type: "post",
+    label: galaxy.labels[i],
+    color: `#${color.getHexString()}`,
+    size: 0.5,
+    x,
+    y,
+    z,
+    data: { id: galaxy.ids[i], content: galaxy.labels[i], createdAt: "", posX: x, posY: y, posZ: z },
+  };
+}
+
+// The whole corpus at once. Every post is a point; the ones nearest the
+// camera are upgraded to pickable spheres, and the very nearest get labels.
+export default function GalaxyLayer({
+  galaxy,
+  highlightedIds = [],
+  onNodeClick,
+  onHover,
+}: GalaxyLayerProps) {
+  const [lod, setLod] = useState<{ spheres: GraphNode[]; labels: GraphNode[] }>({
+    spheres: [],
+    labels: [],
+  });
+  const frame = useRef(0);
+  const lastCamera = useRef(new THREE.Vector3(Infinity, Infinity, Infinity));
+  const lastCount = useRef(0);
+  const count = galaxy.ids.length;
+
+  useFrame(({ camera }) => {
+    frame.current++;
+    if (frame.current % UPDATE_EVERY !== 0) return;
+    if (camera.position.distanceTo(lastCamera.current) < 0.5 && lastCount.current === count) {
+      return;
+    }
+    lastCamera.current.copy(camera.position);
+    lastCount.current = count;
+
+    const { x, y, z } = camera.position;
+    const maxDistSq = SPHERE_DISTANCE * SPHERE_DISTANCE;
+    const near: Array<{ index: number; distSq: number }> = [];
+
+    for (let i = 0; i < count; i++) {
+      const dx = galaxy.positions[i * 3] - x;
+      const dy = galaxy.positions[i * 3 + 1] - y;
+      const dz = galaxy.positions[i * 3 + 2] - z;
+      const distSq = dx * dx + dy * dy + dz * dz;
+      if (distSq < maxDistSq) near.push({ index: i, distSq });
+    }
+
+    near.sort((a, b) => a.distSq - b.distSq);
+    const spheres = near.slice(0, MAX_SPHERES).map((n) => toNode(galaxy, n.index));
+    const labelCount = near
+      .slice(0, MAX_LABELS)
+      .filter((n) => n.distSq < LABEL_DISTANCE * LABEL_DISTANCE).length;
+
+    // Only re-render when the set of nearby posts changed
+    setLod((prev) =>
+      prev.labels.length === labelCount &&
+      prev.spheres.length === spheres.length &&
+      prev.spheres.every((n, i) => n.id === spheres[i].id)
+        ? prev
+        : { spheres, labels: spheres.slice(0, labelCount) }
+    );
+  });
+
+  return (
+    <>
+      {/* Far away: one point per post */}
+      <points key={count}>
+        <bufferGeometry>
+          <bufferAttribute attach="attributes-position" args={[galaxy.positions, 3]} />
+          <bufferAttribute attach="attributes-color" args={[galaxy.colors, 3]} />
+        </bufferGeometry>
+        <pointsMaterial size={0.35} sizeAttenuation vertexColors transparent opacity={0.8} />
+      </points>
+
+      {/* Close up: spheres */}
+      <PostLayer
+        nodes={lod.spheres}
+        highlightedIds={highlightedIds}
+        onNodeClick={onNodeClick}
+        onHover={onHover}
+      />
+
+      {/* Closest: labels */}
+      {lod.labels.map((node) => (
+        <Html key={node.id} position={[node.x, node.y + 0.8, node.z]} center>
+          <div className="text-gray-300 text-xs whitespace-nowrap pointer-events-none">
+            {node.label}
+          </div>
+        </Html>
+      ))}
+    </>
+  );
+}
@@ -3,24 +3,43 @@
 import { Canvas, useThree, useFrame } from "@react-three/fiber";
 import { OrbitControls, Stars, Html } from "@react-three/drei";
 import { Suspense, useState, useRef, useEffect } from "react";
-import { GraphData, GraphNode, Topic, Post } from "@/types";
+import {
+  GraphData,
+  GraphNode,
+  GraphLink,
+  Topic,
+  Post,
+  Submolt,
+  GalaxyData,
+  CameraPose,
+  MapMarker,
+} from "@/types";
 import TopicCluster from "./TopicCluster";
-import PostAtom from "./PostAtom";
+import PostLayer from "./PostLayer";
+import GalaxyLayer from "./GalaxyLayer";
+import TopicBond from "./TopicBond";
 import * as THREE from "three";
 
 interface MolecularMapProps {
   data: GraphData;
   onNodeClick?: (node: GraphNode) => void;
   highlightedIds?: string[];
+  trendingIds?: string[]; // Topics that get the trending pulse
   selectedTopicId?: string;
   focusTarget?: { x: number; y: number; z: number } | null;
+  marker?: MapMarker | null; // Pulsing spot at a point of interest (e.g. a hovered related post)
+  galaxy?: GalaxyData | null; // Every post as a point cloud, shown in the overview
+  cameraPose?: CameraPose | null; // Jump the camera here (e.g. from a shared link)
+  onCameraChange?: (pose: CameraPose) => void; // Called when the user stops moving the camera
 }
 
 // Camera controller component
 function CameraController({
   focusTarget,
+  cameraPose,
 }: {
   focusTarget?: { x: number; y: number; z: number } | null;
+  cameraPose?: CameraPose | null;
 }) {
   const { camera } = useThree();
   const targetRef = useRef(new THREE.Vector3(0, 0, 0));
@@ -33,6 +52,13 @@ function CameraController({
     }
   }, [focusTarget]);
 
+  // An explicit pose wins over any focus animation in flight
+  useEffect(() => {
+    if (cameraPose) {
+      isAnimating.current = false;
+    }
+  }, [cameraPose]);
+
   useFrame(() => {
     if (isAnimating.current && focusTarget) {
       // Calculate target camera position (offset from focus point)
@@ -59,23 +85,51 @@ function Scene({
   data,
   onNodeClick,
   highlightedIds = [],
+  trendingIds = [],
   selectedTopicId,
   focusTarget,
+  marker,
+  galaxy,
+  cameraPose,
+  onCameraChange,
 }: MolecularMapProps) {
+  const { camera } = useThree();
   const [hoveredNode, setHoveredNode] = useState<GraphNode | null>(null);
   const controlsRef = useRef<any>(null);
 
-  const topicNodes = data.nodes.filter((n) => n.type === "topic");
+  // Topic and submolt nodes (both drawn as clusters)
+  const topicNodes = data.nodes.filter((n) => n.type !== "post");
   const postNodes = data.nodes.filter((n) => n.type === "post");
 
-  // Filter posts if a topic is selected
+  // Links between clusters: topic <-> topic bonds, and the submolt -> topic overlay
+  const topicNodesById = new Map(topicNodes.map((n) => [n.id, n]));
+  const clusterLinks = data.links.filter(
+    (l) => topicNodesById.has(l.source) && topicNodesById.has(l.target)
+  );
+  const topicBonds = clusterLinks.filter(
+    (l) =>
+      topicNodesById.get(l.source)!.type === "topic" &&
+      topicNodesById.get(l.target)!.type === "topic"
+  );
+  const groupLinks = clusterLinks.filter((l) => !topicBonds.includes(l));
+
+  // Filter posts if a topic or submolt is selected
   const visiblePosts = selectedTopicId
     ? postNodes.filter((n) => {
         const post = n.data as Post;
-        return post.topics?.some((t) => t.id === selectedTopicId);
+        return (
+          post.topics?.some((t) => t.id === selectedTopicId) ||
+          post.submolt?.id === selectedTopicId
+        );
       })
     : [];
 
+  // Weighted bonds from visible posts to every topic (or submolt) they belong to
+  const visiblePostIds = new Set(visiblePosts.map((n) => n.id));
+  const postLinks = data.links.filter(
+    (l) => visiblePostIds.has(l.source) && topicNodesById.has(l.target)
+  );
+
   // Update orbit controls target when focus changes
   useEffect(() => {
     if (focusTarget && controlsRef.current) {
@@ -86,10 +140,28 @@ function Scene({
     }
   }, [focusTarget]);
 
+  // Restore a saved camera pose
+  useEffect(() => {
+    if (cameraPose && controlsRef.current) {
+      camera.position.set(...cameraPose.position);
+      controlsRef.current.target.set(...cameraPose.target);
+      controlsRef.current.update();
+    }
+  }, [cameraPose, camera]);
+
+  const handleControlsEnd = () => {
+    const round = (v: number) => Math.round(v * 100) / 100;
+    const target = controlsRef.current.target as THREE.Vector3;
+    onCameraChange?.({
+      position: [round(camera.position.x), round(camera.position.y), round(camera.position.z)],
+      target: [round(target.x), round(target.y), round(target.z)],
+    });
+  };
+
   return (
     <>
       {/* Camera controller for smooth navigation */}
-      <CameraController focusTarget={focusTarget} />
+      <CameraController focusTarget={focusTarget} cameraPose={cameraPose} />
 
       {/* Ambient lighting */}
       <ambientLight intensity={0.4} />
@@ -106,38 +178,66 @@ function Scene({
           node={node}
           isHighlighted={highlightedIds.includes(node.id)}
           isSelected={selectedTopicId === node.id}
+          isTrending={trendingIds.includes(node.id)}
           onClick={() => onNodeClick?.(node)}
           onHover={(hovered) => setHoveredNode(hovered ? node : null)}
         />
       ))}
 
-      {/* Post atoms (only shown when a topic is selected) */}
-      {visiblePosts.map((node) => (
-        <PostAtom
-          key={node.id}
-          node={node}
-          isHighlighted={highlightedIds.includes(node.id)}
-          onClick={() => onNodeClick?.(node)}
-          onHover={(hovered) => setHoveredNode(hovered ? node : null)}
+      {/* Bonds between related topics */}
+      {topicBonds.map((link) => (
+        <TopicBond
+          key={`${link.source}-${link.target}`}
+          link={link}
+          source={topicNodesById.get(link.source)!}
+          target={topicNodesById.get(link.target)!}
+          isHighlighted={
+            hoveredNode?.id === link.source ||
+            hoveredNode?.id === link.target ||
+            selectedTopicId === link.source ||
+            selectedTopicId === link.target
+          }
         />
       ))}
 
-      {/* Connection lines for posts to their topic */}
-      {selectedTopicId && visiblePosts.length > 0 && (
-        <ConnectionLines
-          posts={visiblePosts}
-          topicNode={topicNodes.find((n) => n.id === selectedTopicId)!}
+      {/* Submolt -> topic links */}
+      {groupLinks.length > 0 && <GroupLinks links={groupLinks} nodes={topicNodes} />}
+
+      {/* Post atoms (only shown when a topic is selected), drawn as one instanced layer */}
+      <PostLayer
+        nodes={visiblePosts}
+        highlightedIds={highlightedIds}
+        onNodeClick={onNodeClick}
+        onHover={setHoveredNode}
+      />
+
+      {/* All posts, with detail ramping up near the camera */}
+      {galaxy && !selectedTopicId && (
+        <GalaxyLayer
+          galaxy={galaxy}
+          highlightedIds={highlightedIds}
+          onNodeClick={onNodeClick}
+          onHover={setHoveredNode}
         />
       )}
 
+      {/* Bonds from posts to their topics, brighter for higher relevance */}
+      {postLinks.length > 0 && (
+        <GroupLinks links={postLinks} nodes={[...topicNodes, ...visiblePosts]} />
+      )}
+
+      {/* Point of interest */}
+      {marker && <Marker marker={marker} />}
+
       {/* Hover tooltip */}
       {hoveredNode && (
         <Html position={[hoveredNode.x, hoveredNode.y + hoveredNode.size + 1, hoveredNode.z]}>
           <div className="bg-gray-900/90 text-white px-3 py-2 rounded-lg text-sm max-w-xs pointer-events-none">
             <div className="font-medium">{hoveredNode.label}</div>
-            {hoveredNode.type === "topic" && (
+            {hoveredNode.type !== "post" && (
               <div className="text-gray-400 text-xs mt-1">
-                {(hoveredNode.data as Topic).postCount} posts
+                {(hoveredNode.data as Topic | Submolt).postCount} posts
+                {hoveredNode.type === "submolt" && " · submolt"}
               </div>
             )}
           </div>
@@ -153,40 +253,63 @@ function Scene({
         maxDistance={300}
         enableDamping={true}
         dampingFactor={0.05}
+        onEnd={handleControlsEnd}
       />
     </>
   );
 }
 
-function ConnectionLines({
-  posts,
-  topicNode,
-}: {
-  posts: GraphNode[];
-  topicNode: GraphNode;
-}) {
-  if (!topicNode) return null;
+// Lines between nodes, brighter for stronger links
+function GroupLinks({ links, nodes }: { links: GraphLink[]; nodes: GraphNode[] }) {
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+  const positions: number[] = [];
+  const colors: number[] = [];
 
-  const positions = new Float32Array(
-    posts.flatMap((post) => [
-      topicNode.x, topicNode.y, topicNode.z,
-      post.x, post.y, post.z,
-    ])
-  );
+  links.forEach((link) => {
+    const source = nodesById.get(link.source)!;
+    const target = nodesById.get(link.target)!;
+    const intensity = 0.2 + 0.8 * link.strength;
+    const sourceColor = new THREE.Color(source.color).multiplyScalar(intensity);
+    const targetColor = new THREE.Color(target.color).multiplyScalar(intensity);
+
+    positions.push(source.x, source.y, source.z, target.x, target.y, target.z);
+    colors.push(sourceColor.r, sourceColor.g, sourceColor.b, targetColor.r, targetColor.g, targetColor.b);
+  });
 
   return (
     <lineSegments>
       <bufferGeometry>
         <bufferAttribute
           attach="attributes-position"
-          args={[positions, 3]}
+          args={[new Float32Array(positions), 3]}
+        />
+        <bufferAttribute
+          attach="attributes-color"
+          args={[new Float32Array(colors), 3]}
         />
       </bufferGeometry>
-      <lineBasicMaterial color="#4b5563" opacity={0.3} transparent />
+      <lineBasicMaterial vertexColors opacity={0.6} transparent />
     </lineSegments>
   );
 }
 
+// Translucent pulsing sphere, visible even where no node is drawn
+function Marker({ marker }: { marker: MapMarker }) {
+  const meshRef = useRef<THREE.Mesh>(null);
+
+  useFrame(({ clock }) => {
+    if (!meshRef.current) return;
+    meshRef.current.scale.setScalar(1 + 0.3 * Math.sin(clock.elapsedTime * 5));
+  });
+
+  return (
+    <mesh ref={meshRef} position={[marker.x, marker.y, marker.z]}>
+      <sphereGeometry args={[1.5, 16, 16]} />
+      <meshBasicMaterial color={marker.color || "#ffffff"} transparent opacity={0.5} depthWrite={false} />
+    </mesh>
+  );
+}
+
 function LoadingFallback() {
   return (
     <Html center>
@@ -199,8 +322,13 @@ export default function MolecularMap({
   data,
   onNodeClick,
   highlightedIds = [],
+  trendingIds = [],
   selectedTopicId,
   focusTarget,
+  marker,
+  galaxy,
+  cameraPose,
+  onCameraChange,
 }: MolecularMapProps) {
   return (
     <div className="w-full h-full bg-gray-950">
@@ -213,8 +341,13 @@ export default function MolecularMap({
             data={data}
             onNodeClick={onNodeClick}
             highlightedIds={highlightedIds}
+            trendingIds={trendingIds}
             selectedTopicId={selectedTopicId}
             focusTarget={focusTarget}
+            marker={marker}
+            galaxy={galaxy}
+            cameraPose={cameraPose}
+            onCameraChange={onCameraChange}
           />
         </Suspense>
       </Canvas>
@@ -1,19 +1,128 @@
 "use client";
 
-import { Post, Topic, GraphNode } from "@/types";
+import { useEffect, useState } from "react";
+import { Post, Topic, GraphNode, TopicStats, PostNeighbor } from "@/types";
 
 interface PostDetailProps {
   node: GraphNode | null;
   onClose: () => void;
   onTopicClick?: (topicId: string) => void;
+  onPostClick?: (postId: string) => void;
+  onAuthorClick?: (authorId: string) => void;
+  onRelatedHover?: (neighbor: PostNeighbor | null) => void;
+  onEditTopic?: (topicId: string) => void;
 }
 
-export default function PostDetail({ node, onClose, onTopicClick }: PostDetailProps) {
+const TOPIC_PAGE_SIZE = 10;
+const RELATED_COUNT = 8;
+
+interface RelatedPosts {
+  postId: string;
+  otherTopics: boolean;
+  neighbors: PostNeighbor[];
+}
+
+interface TopicPage {
+  topicId: string;
+  stats: TopicStats;
+  posts: Post[];
+  hasMore: boolean;
+}
+
+export default function PostDetail({
+  node,
+  onClose,
+  onTopicClick,
+  onPostClick,
+  onAuthorClick,
+  onRelatedHover,
+  onEditTopic,
+}: PostDetailProps) {
+  const [loadedPost, setLoadedPost] = useState<Post | null>(null);
+  const [related, setRelated] = useState<RelatedPosts | null>(null);
+  const [otherTopicsOnly, setOtherTopicsOnly] = useState(false);
+  const [topicPage, setTopicPage] = useState<TopicPage | null>(null);
+  const postId = node?.type === "post" ? node.id : null;
+  const topicId = node?.type === "topic" ? node.id : null;
+
+  // Graph nodes carry no post bodies; load the full post when the panel opens
+  useEffect(() => {
+    if (!postId) return;
+
+    let cancelled = false;
+    fetch(`/api/posts/${postId}?neighbors=0`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.post) setLoadedPost(data.post);
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [postId]);
+
+  // Semantically nearest posts
+  useEffect(() => {
+    if (!postId) return;
+
+    let cancelled = false;
+    fetch(`/api/posts/${postId}/similar?k=${RELATED_COUNT}&otherTopics=${otherTopicsOnly}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data) {
+          setRelated({ postId, otherTopics: otherTopicsOnly, neighbors: data.neighbors });
+        }
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [postId, otherTopicsOnly]);
+
+  // Topic stats and the first page of its posts
+  useEffect(() => {
+    if (!topicId) return;
+
+    let cancelled = false;
+    fetch(`/api/topics/${topicId}?limit=${TOPIC_PAGE_SIZE}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data) {
+          setTopicPage({ topicId, stats: data.stats, posts: data.posts, hasMore: data.hasMore });
+        }
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [topicId]);
+
+  const loadMoreTopicPosts = async () => {
+    if (!topicPage) return;
+    try {
+      const res = await fetch(
+        `/api/topics/${topicPage.topicId}?limit=${TOPIC_PAGE_SIZE}&offset=${topicPage.posts.length}`
+      );
+      const data = await res.json();
+      setTopicPage({
+        ...topicPage,
+        posts: [...topicPage.posts, ...(data.posts || [])],
+        hasMore: data.hasMore,
+      });
+    } catch (err) {
+      console.error("Error loading topic posts:", err);
+    }
+  };
+
   if (!node) return null;
 
   const isPost = node.type === "post";
-  const post = isPost ? (node.data as Post) : null;
+  const isLoading = isPost && loadedPost?.id !== node.id;
+  const post = isPost ? (isLoading ? (node.data as Post) : loadedPost) : null;
   const topic = !isPost ? (node.data as Topic) : null;
+  const topicDetails = topicPage?.topicId === node.id ? topicPage : null;
+  const relatedPosts =
+    related?.postId === node.id && related.otherTopics === otherTopicsOnly ? related.neighbors : null;
 
   return (
     <div className="absolute right-4 top-4 bottom-4 w-96 z-50">
@@ -29,14 +138,27 @@ export default function PostDetail({ node, onClose, onTopicClick }: PostDetailPr
               {isPost ? "Post" : "Topic"}
             </span>
           </div>
-          <button
-            onClick={onClose}
-            className="text-gray-400 hover:text-white transition-colors p-1"
-          >
-            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
+          <div className="flex items-center gap-1">
+            {node.type === "topic" && onEditTopic && (
+              <button
+                onClick={() => onEditTopic(node.id)}
+                className="text-gray-400 hover:text-white transition-colors p-1"
+                title="Edit topic"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 9 17l.464-3.536z" />
+                </svg>
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white transition-colors p-1"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
         </div>
 
         {/* Content */}
@@ -52,23 +174,60 @@ export default function PostDetail({ node, onClose, onTopicClick }: PostDetailPr
 
               {/* Post content */}
               <p className="text-gray-300 whitespace-pre-wrap leading-relaxed">
-                {post.content}
+                {post.content || (isLoading && <span className="text-gray-500">Loading...</span>)}
               </p>
 
               {/* Author & date */}
               <div className="mt-4 pt-4 border-t border-gray-800">
                 {post.author && (
                   <div className="text-sm text-gray-400 mb-1">
-                    By {post.author}
+                    By{" "}
+                    {post.authorId && onAuthorClick ? (
+                      <button
+                        onClick={() => onAuthorClick(post.authorId!)}
+                        className="text-blue-400 hover:text-blue-300 transition-colors"
+                      >
+                        {post.author}
+                      </button>
+                    ) : (
+                      post.author
+                    )}
+                  </div>
+                )}
+                {post.submolt && (
+                  <div className="text-sm text-gray-400 mb-1">
+                    In{" "}
+                    <span className="text-gray-300" title={`m/${post.submolt.name}`}>
+                      {post.submolt.displayName}
+                    </span>
+                  </div>
+                )}
+                {post.createdAt && (
+                  <div className="text-xs text-gray-500">
+                    {new Date(post.createdAt).toLocaleDateString("en-US", {
+                      year: "numeric",
+                      month: "long",
+                      day: "numeric",
+                    })}
+                  </div>
+                )}
+                {(post.duplicateCount ?? 0) > 0 && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    Reposted {post.duplicateCount} more {post.duplicateCount === 1 ? "time" : "times"}{" "}
+                    (collapsed into this post)
+                  </div>
+                )}
+                {post.canonicalId && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    Near-duplicate of{" "}
+                    <button
+                      onClick={() => onPostClick?.(post.canonicalId!)}
+                      className="text-blue-400 hover:text-blue-300 transition-colors"
+                    >
+                      an earlier post
+                    </button>
                   </div>
                 )}
-                <div className="text-xs text-gray-500">
-                  {new Date(post.createdAt).toLocaleDateString("en-US", {
-                    year: "numeric",
-                    month: "long",
-                    day: "numeric",
-                  })}
-                </div>
               </div>
 
               {/* Topics */}
@@ -89,12 +248,59 @@ export default function PostDetail({ node, onClose, onTopicClick }: PostDetailPr
                         }}
                       >
                         {t.name}
+                        <span className="ml-1.5 text-xs opacity-60">
+                          {Math.round(t.relevance * 100)}%
+                        </span>
                       </button>
                     ))}
                   </div>
                 </div>
               )}
 
+              {/* Related posts */}
+              <div className="mt-4 pt-4 border-t border-gray-800">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-xs text-gray-500 uppercase tracking-wider">Related</span>
+                  <label className="flex items-center gap-1.5 text-xs text-gray-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={otherTopicsOnly}
+                      onChange={(e) => setOtherTopicsOnly(e.target.checked)}
+                      className="accent-blue-500"
+                    />
+                    Other topics only
+                  </label>
+                </div>
+                {!relatedPosts ? (
+                  <div className="text-sm text-gray-500">Loading...</div>
+                ) : relatedPosts.length === 0 ? (
+                  <div className="text-sm text-gray-500">No related posts</div>
+                ) : (
+                  <div className="space-y-1" onMouseLeave={() => onRelatedHover?.(null)}>
+                    {relatedPosts.map((n) => (
+                      <button
+                        key={n.id}
+                        onClick={() => {
+                          onRelatedHover?.(null);
+                          onPostClick?.(n.id);
+                        }}
+                        onMouseEnter={() => onRelatedHover?.(n)}
+                        className="w-full text-left px-2 py-1.5 rounded text-sm text-gray-300 hover:bg-gray-800 transition-colors flex items-center gap-2"
+                      >
+                        <span
+                          className="w-2 h-2 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: n.color || "#94a3b8" }}
+                        />
+                        <span className="flex-1 truncate">{n.label}</span>
+                        <span className="text-xs text-gray-500">
+                          {Math.round(n.similarity * 100)}%
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               {/* Link to original */}
               {post.url && (
                 <div className="mt-4 pt-4 border-t border-gray-800">
@@ -136,12 +342,63 @@ export default function PostDetail({ node, onClose, onTopicClick }: PostDetailPr
                 </div>
               </div>
 
-              {/* Instructions */}
-              <div className="mt-4 p-3 bg-blue-500/10 rounded-lg border border-blue-500/20">
-                <p className="text-blue-400 text-sm">
-                  Click on this topic in the 3D view to see all related posts
-                </p>
-              </div>
+              {topicDetails && (
+                <>
+                  {/* Spread */}
+                  <div className="mt-4 grid grid-cols-2 gap-2 text-sm">
+                    <div className="bg-gray-800/50 rounded-lg p-3">
+                      <div className="text-white font-semibold">
+                        {topicDetails.stats.memberCount}
+                      </div>
+                      <div className="text-gray-400 text-xs">linked posts</div>
+                    </div>
+                    <div className="bg-gray-800/50 rounded-lg p-3">
+                      <div className="text-white font-semibold">
+                        {Math.round(topicDetails.stats.avgRelevance * 100)}%
+                      </div>
+                      <div className="text-gray-400 text-xs">avg. relevance</div>
+                    </div>
+                  </div>
+
+                  {topicDetails.stats.topAuthors.length > 0 && (
+                    <div className="mt-4 text-sm text-gray-400">
+                      Top authors:{" "}
+                      <span className="text-gray-300">
+                        {topicDetails.stats.topAuthors
+                          .map((a) => `${a.author} (${a.count})`)
+                          .join(", ")}
+                      </span>
+                    </div>
+                  )}
+
+                  {/* Posts, most relevant first */}
+                  <div className="mt-4 pt-4 border-t border-gray-800">
+                    <div className="text-xs text-gray-500 uppercase tracking-wider mb-2">
+                      Posts
+                    </div>
+                    <div className="space-y-1">
+                      {topicDetails.posts.map((p) => (
+                        <button
+                          key={p.id}
+                          onClick={() => onPostClick?.(p.id)}
+                          className="w-full text-left px-2 py-1.5 rounded text-sm text-gray-300 hover:bg-gray-800 transition-colors truncate"
+                        >
+                          {p.title || p.content.slice(0, 80)}
+                        </button>
+                      ))}
+                    </div>
+                    {topicDetails.hasMore && (
+                      <button
+                        onClick={loadMoreTopicPosts}
+                        className="mt-2 text-sm text-blue-400 hover:text-blue-300"
+                      >
+                        Load more
+                      </button>
+                    )}
+                  </div>
+                </>
+              )}
+
             </>
           ) : null}
         </div>
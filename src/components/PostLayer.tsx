@@ -0,0 +1,180 @@
+"use client";
+
+import { useLayoutEffect, useMemo, useRef, useState } from "react";
+import { ThreeEvent, useFrame } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import * as THREE from "three";
+import { GraphNode, Post } from "@/types";
+
+interface PostLayerProps {
+  nodes: GraphNode[];
+  highlightedIds?: string[];
+  onNodeClick?: (node: GraphNode) => void;
+  onHover?: (node: GraphNode | null) => void;
+}
+
+const BASE_SIZE = 0.4;
+const ACTIVE_SIZE = 0.6;
+const MAX_BADGES = 200; // "×N" badges drawn, largest duplicate groups first
+
+// Float and pulse run in the vertex shader; each instance gets a float phase
+// and a glow flag (0 = idle, 1 = highlighted or hovered)
+function patchShader(
+  shader: THREE.WebGLProgramParametersWithUniforms,
+  uniforms: { uTime: THREE.IUniform }
+) {
+  shader.uniforms.uTime = uniforms.uTime;
+
+  shader.vertexShader = shader.vertexShader
+    .replace(
+      "#include <common>",
+      `#include <common>
+      uniform float uTime;
+      attribute float aPhase;
+      attribute float aGlow;
+      varying float vGlow;`
+    )
+    .replace(
+      "#include <begin_vertex>",
+      `#include <begin_vertex>
+      transformed *= 1.0 + aGlow * sin( uTime * 4.0 ) * 0.15;
+      vGlow = aGlow;`
+    )
+    .replace(
+      "#include <project_vertex>",
+      THREE.ShaderChunk.project_vertex.replace(
+        "mvPosition = instanceMatrix * mvPosition;",
+        `mvPosition = instanceMatrix * mvPosition;
+        mvPosition.y += sin( uTime + aPhase ) * 0.1;`
+      )
+    );
+
+  shader.fragmentShader = shader.fragmentShader
+    .replace(
+      "#include <common>",
+      `#include <common>
+      varying float vGlow;`
+    )
+    .replace(
+      "#include <emissivemap_fragment>",
+      `#include <emissivemap_fragment>
+      totalEmissiveRadiance = vColor * mix( 0.3, 0.6, vGlow );`
+    );
+}
+
+// Every visible post drawn as one InstancedMesh, so tens of thousands of
+// posts cost a single draw call. Picking and hover go through instance ids
+// and report the GraphNode, same as clicking a TopicCluster.
+export default function PostLayer({
+  nodes,
+  highlightedIds = [],
+  onNodeClick,
+  onHover,
+}: PostLayerProps) {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const uniforms = useRef({ uTime: { value: 0 } });
+
+  const phases = useMemo(
+    () => new Float32Array(nodes.map((node) => node.x * 0.1)),
+    [nodes]
+  );
+  const glow = useMemo(() => new Float32Array(nodes.length), [nodes]);
+
+  // Posts standing in for collapsed near-duplicates
+  const collapsed = useMemo(
+    () =>
+      nodes
+        .filter((node) => ((node.data as Post).duplicateCount ?? 0) > 0)
+        .sort((a, b) => (b.data as Post).duplicateCount! - (a.data as Post).duplicateCount!)
+        .slice(0, MAX_BADGES),
+    [nodes]
+  );
+
+  // Colors only change with the node set
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    const color = new THREE.Color();
+    nodes.forEach((node, i) => mesh.setColorAt(i, color.set(node.color)));
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }, [nodes]);
+
+  // Positions, plus scale and the glow flag for highlighted/hovered posts
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    const highlighted = new Set(highlightedIds);
+    const matrix = new THREE.Matrix4();
+    nodes.forEach((node, i) => {
+      const active = highlighted.has(node.id) || i === hoveredIndex;
+      const size = (active ? ACTIVE_SIZE : BASE_SIZE) / BASE_SIZE;
+      matrix.makeScale(size, size, size).setPosition(node.x, node.y, node.z);
+      mesh.setMatrixAt(i, matrix);
+      glow[i] = active ? 1 : 0;
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.geometry.getAttribute("aGlow").needsUpdate = true;
+    mesh.computeBoundingSphere();
+  }, [nodes, glow, highlightedIds, hoveredIndex]);
+
+  useFrame((state) => {
+    uniforms.current.uTime.value = state.clock.elapsedTime;
+  });
+
+  const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+    if (e.instanceId === undefined || e.instanceId === hoveredIndex) return;
+    e.stopPropagation();
+    setHoveredIndex(e.instanceId);
+    onHover?.(nodes[e.instanceId]);
+    document.body.style.cursor = "pointer";
+  };
+
+  const handlePointerOut = () => {
+    setHoveredIndex(null);
+    onHover?.(null);
+    document.body.style.cursor = "default";
+  };
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    if (e.instanceId === undefined) return;
+    e.stopPropagation();
+    onNodeClick?.(nodes[e.instanceId]);
+  };
+
+  if (nodes.length === 0) return null;
+
+  return (
+    <>
+      <instancedMesh
+        // Instance buffers are sized once, so remount when the count changes
+        key={nodes.length}
+        ref={meshRef}
+        args={[undefined, undefined, nodes.length]}
+        onClick={handleClick}
+        onPointerMove={handlePointerMove}
+        onPointerOut={handlePointerOut}
+      >
+        <sphereGeometry args={[BASE_SIZE, 16, 16]}>
+          <instancedBufferAttribute attach="attributes-aPhase" args={[phases, 1]} />
+          <instancedBufferAttribute attach="attributes-aGlow" args={[glow, 1]} />
+        </sphereGeometry>
+        <meshStandardMaterial
+          roughness={0.4}
+          metalness={0.6}
+          onBeforeCompile={(shader) => patchShader(shader, uniforms.current)}
+        />
+      </instancedMesh>
+
+      {collapsed.map((node) => (
+        <Html key={node.id} position={[node.x, node.y + ACTIVE_SIZE, node.z]} center>
+          <div className="px-1 rounded bg-gray-900/80 text-gray-200 text-[10px] leading-tight pointer-events-none select-none">
+            ×{(node.data as Post).duplicateCount! + 1}
+          </div>
+        </Html>
+      ))}
+    </>
+  );
+}
@@ -1,14 +1,18 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { SearchResult, Topic } from "@/types";
+import { useState, useEffect, useRef } from "react";
+import { SearchFilters, SearchResponse, SearchResult, Topic, TopicTrend } from "@/types";
 
 interface SearchOverlayProps {
-  onSearch: (query: string) => Promise<SearchResult[]>;
+  onSearch: (query: string, filters: SearchFilters, offset: number) => Promise<SearchResponse>;
   onResultClick: (result: SearchResult) => void;
   onTopicClick: (topicId: string) => void;
   onClear: () => void;
   hotTopics: Topic[];
+  trends?: Map<string, TopicTrend>; // Recent activity per topic id
+  topics: Topic[];
+  query: string;
+  onQueryChange: (query: string) => void;
 }
 
 export default function SearchOverlay({
@@ -17,34 +21,75 @@ export default function SearchOverlay({
   onTopicClick,
   onClear,
   hotTopics,
+  trends,
+  topics,
+  query,
+  onQueryChange: setQuery,
 }: SearchOverlayProps) {
-  const [query, setQuery] = useState("");
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
   const [results, setResults] = useState<SearchResult[]>([]);
+  const [hasMore, setHasMore] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
 
+  // The query and filters the shown results belong to; responses to any
+  // other search arrive too late and are dropped
+  const searchKey = useRef("");
+
+  const activeFilterCount = Object.values(filters).filter(
+    (value) => value !== undefined && value !== ""
+  ).length;
+
   // Debounced search
   useEffect(() => {
+    const key = JSON.stringify([query, filters]);
+    searchKey.current = key;
+
     if (!query.trim()) {
       setResults([]);
+      setHasMore(false);
       return;
     }
 
     const timer = setTimeout(async () => {
       setIsSearching(true);
       try {
-        const searchResults = await onSearch(query);
-        setResults(searchResults);
+        const response = await onSearch(query, filters, 0);
+        if (searchKey.current !== key) return;
+        setResults(response.results);
+        setHasMore(response.hasMore);
       } catch (error) {
         console.error("Search error:", error);
+        if (searchKey.current !== key) return;
         setResults([]);
+        setHasMore(false);
       } finally {
         setIsSearching(false);
       }
     }, 300);
 
     return () => clearTimeout(timer);
-  }, [query, onSearch]);
+  }, [query, filters, onSearch]);
+
+  const loadMore = async () => {
+    setIsSearching(true);
+    try {
+      const key = searchKey.current;
+      const response = await onSearch(query, filters, results.length);
+      if (searchKey.current !== key) return;
+      setResults((prev) => [...prev, ...response.results]);
+      setHasMore(response.hasMore);
+    } catch (error) {
+      console.error("Search error:", error);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const updateFilter = <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value || undefined }));
+  };
 
   const handleClear = () => {
     setQuery("");
@@ -117,6 +162,111 @@ export default function SearchOverlay({
         </div>
       </div>
 
+      {/* Filter bar */}
+      {isOpen && (
+        <div className="mt-2 bg-gray-900/95 backdrop-blur-sm rounded-xl border border-gray-700 overflow-hidden">
+          <button
+            onClick={() => setShowFilters((prev) => !prev)}
+            className="w-full px-4 py-2 flex items-center justify-between text-xs text-gray-400 uppercase tracking-wider hover:text-white transition-colors"
+          >
+            <span className="flex items-center gap-2">
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+              </svg>
+              Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+            </span>
+            <svg
+              className={`w-4 h-4 transition-transform ${showFilters ? "rotate-180" : ""}`}
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+
+          {showFilters && (
+            <div className="px-4 pb-4 grid grid-cols-2 gap-3 text-sm">
+              <label className="flex flex-col gap-1 text-xs text-gray-500">
+                Type
+                <select
+                  value={filters.type || ""}
+                  onChange={(e) => updateFilter("type", e.target.value as SearchFilters["type"])}
+                  className="bg-gray-800 text-white rounded-lg px-2 py-1.5 border border-gray-700 focus:border-blue-500 focus:outline-none"
+                >
+                  <option value="">Posts &amp; topics</option>
+                  <option value="post">Posts</option>
+                  <option value="topic">Topics</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-gray-500">
+                Topic
+                <select
+                  value={filters.topicId || ""}
+                  onChange={(e) => updateFilter("topicId", e.target.value)}
+                  className="bg-gray-800 text-white rounded-lg px-2 py-1.5 border border-gray-700 focus:border-blue-500 focus:outline-none"
+                >
+                  <option value="">Any topic</option>
+                  {topics.map((topic) => (
+                    <option key={topic.id} value={topic.id}>
+                      {topic.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="col-span-2 flex flex-col gap-1 text-xs text-gray-500">
+                Author
+                <input
+                  type="text"
+                  value={filters.author || ""}
+                  onChange={(e) => updateFilter("author", e.target.value)}
+                  placeholder="Any author"
+                  className="bg-gray-800 text-white placeholder-gray-500 rounded-lg px-2 py-1.5 border border-gray-700 focus:border-blue-500 focus:outline-none"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-gray-500">
+                From
+                <input
+                  type="date"
+                  value={filters.from || ""}
+                  onChange={(e) => updateFilter("from", e.target.value)}
+                  className="bg-gray-800 text-white rounded-lg px-2 py-1.5 border border-gray-700 focus:border-blue-500 focus:outline-none"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-gray-500">
+                To
+                <input
+                  type="date"
+                  value={filters.to || ""}
+                  onChange={(e) => updateFilter("to", e.target.value)}
+                  className="bg-gray-800 text-white rounded-lg px-2 py-1.5 border border-gray-700 focus:border-blue-500 focus:outline-none"
+                />
+              </label>
+              <label className="col-span-2 flex flex-col gap-1 text-xs text-gray-500">
+                Min. similarity: {Math.round((filters.minSimilarity ?? 0) * 100)}%
+                <input
+                  type="range"
+                  min={0}
+                  max={0.9}
+                  step={0.05}
+                  value={filters.minSimilarity ?? 0}
+                  onChange={(e) => updateFilter("minSimilarity", parseFloat(e.target.value))}
+                  className="accent-blue-500"
+                />
+              </label>
+              {activeFilterCount > 0 && (
+                <button
+                  onClick={() => setFilters({})}
+                  className="col-span-2 text-xs text-blue-400 hover:text-blue-300 transition-colors text-left"
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Hot topics (when no search query) */}
       {showHotTopics && (
         <div className="mt-2 bg-gray-900/95 backdrop-blur-sm rounded-xl border border-gray-700 overflow-hidden">
@@ -145,6 +295,9 @@ export default function SearchOverlay({
                   </div>
                   <div className="text-xs text-gray-500">
                     {topic.postCount} posts
+                    {trends?.get(topic.id) && (
+                      <TrendSummary trend={trends.get(topic.id)!} />
+                    )}
                   </div>
                 </div>
                 <svg className="w-4 h-4 text-gray-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -192,6 +345,9 @@ export default function SearchOverlay({
               <div className="flex items-center justify-between mt-2">
                 <div className="text-xs text-gray-500">
                   {Math.round(result.similarity * 100)}% match
+                  {result.matchedBy?.includes("keyword") && (
+                    <span className="ml-2 text-emerald-400">· keyword</span>
+                  )}
                 </div>
                 <div className="text-xs text-blue-400 flex items-center gap-1">
                   Go to location
@@ -203,6 +359,15 @@ export default function SearchOverlay({
               </div>
             </button>
           ))}
+          {hasMore && (
+            <button
+              onClick={loadMore}
+              disabled={isSearching}
+              className="w-full px-4 py-2 text-sm text-blue-400 hover:text-blue-300 hover:bg-gray-800/50 transition-colors disabled:opacity-50"
+            >
+              {isSearching ? "Loading..." : "Load more"}
+            </button>
+          )}
         </div>
       )}
 
@@ -224,3 +389,17 @@ export default function SearchOverlay({
     </div>
   );
 }
+
+// "· 12 in 24h · 3.2× usual", flagged when the topic is bursting
+function TrendSummary({ trend }: { trend: TopicTrend }) {
+  return (
+    <>
+      {" · "}
+      {trend.lastDay} in 24h
+      {trend.growth >= 1.5 && (
+        <span className="text-orange-400"> · {trend.growth.toFixed(1)}× usual</span>
+      )}
+      {trend.isBursting && <span className="ml-1" title="Burst in the last hour">⚡</span>}
+    </>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { TimelineBucket, TopicTimeline } from "@/types";
+
+interface TimelineProps {
+  timeline: TopicTimeline;
+  index: number;
+  onIndexChange: (index: number) => void;
+  windowSize: number; // Buckets of posts shown at once
+  onWindowSizeChange: (windowSize: number) => void;
+  onBucketChange: (bucket: TimelineBucket) => void;
+  onClose: () => void;
+}
+
+const STEP_MS = 600; // Time per bucket at 1x
+const SPEEDS = [1, 2, 4, 8];
+const WINDOW_SIZES = [1, 3, 7, 30];
+
+function formatBucket(iso: string, bucket: TimelineBucket): string {
+  const date = new Date(iso);
+  return bucket === "hour"
+    ? date.toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric" })
+    : date.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+}
+
+// Scrubber for time-lapse playback: one step per time bucket
+export default function Timeline({
+  timeline,
+  index,
+  onIndexChange,
+  windowSize,
+  onWindowSizeChange,
+  onBucketChange,
+  onClose,
+}: TimelineProps) {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const lastIndex = timeline.buckets.length - 1;
+
+  // Advance one bucket per step; stop at the end
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const timer = setTimeout(() => {
+      if (index < lastIndex) {
+        onIndexChange(index + 1);
+      } else {
+        setIsPlaying(false);
+      }
+    }, STEP_MS / speed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, index, lastIndex, speed, onIndexChange]);
+
+  const togglePlay = () => {
+    // Replay from the start once the end is reached
+    if (!isPlaying && index >= lastIndex) onIndexChange(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="absolute bottom-20 left-1/2 -translate-x-1/2 z-50 w-[36rem] bg-gray-900/95 backdrop-blur-sm rounded-xl border border-gray-700 px-4 py-3">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlay}
+          disabled={lastIndex < 0}
+          className="w-8 h-8 flex items-center justify-center rounded-full bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50"
+          title={isPlaying ? "Pause" : "Play"}
+        >
+          {isPlaying ? (
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+            </svg>
+          ) : (
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M8 5v14l11-7z" />
+            </svg>
+          )}
+        </button>
+
+        <input
+          type="range"
+          min={0}
+          max={Math.max(lastIndex, 0)}
+          value={index}
+          onChange={(e) => onIndexChange(parseInt(e.target.value))}
+          className="flex-1 accent-blue-500"
+        />
+
+        <button onClick={onClose} className="text-gray-400 hover:text-white p-1" title="Close">
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="mt-2 flex items-center gap-3 text-xs text-gray-400">
+        <span className="text-gray-200 min-w-32">
+          {lastIndex >= 0 ? formatBucket(timeline.buckets[index], timeline.bucket) : "No posts"}
+        </span>
+
+        <label className="flex items-center gap-1">
+          Step
+          <select
+            value={timeline.bucket}
+            onChange={(e) => onBucketChange(e.target.value as TimelineBucket)}
+            className="bg-gray-800 text-gray-300 rounded px-1 py-0.5"
+          >
+            <option value="hour">Hour</option>
+            <option value="day">Day</option>
+            <option value="week">Week</option>
+          </select>
+        </label>
+
+        <label className="flex items-center gap-1">
+          Window
+          <select
+            value={windowSize}
+            onChange={(e) => onWindowSizeChange(parseInt(e.target.value))}
+            className="bg-gray-800 text-gray-300 rounded px-1 py-0.5"
+          >
+            {WINDOW_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size} {timeline.bucket}
+                {size > 1 ? "s" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="flex items-center gap-1 ml-auto">
+          {SPEEDS.map((s) => (
+            <button
+              key={s}
+              onClick={() => setSpeed(s)}
+              className={`px-1.5 py-0.5 rounded ${
+                speed === s ? "bg-blue-600 text-white" : "hover:text-white"
+              }`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useMemo } from "react";
+import * as THREE from "three";
+import { GraphNode, GraphLink } from "@/types";
+
+interface TopicBondProps {
+  link: GraphLink;
+  source: GraphNode;
+  target: GraphNode;
+  isHighlighted?: boolean;
+}
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+// A molecular bond between two topics: a cylinder whose thickness and
+// opacity grow with the link strength
+export default function TopicBond({
+  link,
+  source,
+  target,
+  isHighlighted = false,
+}: TopicBondProps) {
+  const { position, quaternion, length, color } = useMemo(() => {
+    const start = new THREE.Vector3(source.x, source.y, source.z);
+    const end = new THREE.Vector3(target.x, target.y, target.z);
+    const direction = end.clone().sub(start);
+
+    return {
+      position: start.clone().add(end).multiplyScalar(0.5),
+      quaternion: new THREE.Quaternion().setFromUnitVectors(
+        UP,
+        direction.clone().normalize()
+      ),
+      length: direction.length(),
+      color: new THREE.Color(source.color).lerp(new THREE.Color(target.color), 0.5),
+    };
+  }, [source.x, source.y, source.z, source.color, target.x, target.y, target.z, target.color]);
+
+  const radius = 0.05 + 0.35 * link.strength;
+  const opacity = isHighlighted ? 0.9 : 0.1 + 0.6 * link.strength;
+
+  return (
+    <mesh position={position} quaternion={quaternion}>
+      <cylinderGeometry args={[radius, radius, length, 8, 1, true]} />
+      <meshBasicMaterial color={color} transparent opacity={opacity} depthWrite={false} />
+    </mesh>
+  );
+}
@@ -10,27 +10,41 @@ interface TopicClusterProps {
   node: GraphNode;
   isHighlighted?: boolean;
   isSelected?: boolean;
+  isTrending?: boolean;
   onClick?: () => void;
   onHover?: (hovered: boolean) => void;
 }
 
+const TRENDING_COLOR = "#f97316";
+
 export default function TopicCluster({
   node,
   isHighlighted = false,
   isSelected = false,
+  isTrending = false,
   onClick,
   onHover,
 }: TopicClusterProps) {
   const meshRef = useRef<THREE.Mesh>(null);
   const glowRef = useRef<THREE.Mesh>(null);
+  const bodyRef = useRef<THREE.Group>(null);
+  const pulseRef = useRef<THREE.Mesh>(null);
   const [hovered, setHovered] = useState(false);
 
   const topic = node.data as Topic;
-  const baseSize = node.size;
+  // Geometry keeps its first size; later size changes (e.g. time-lapse
+  // playback) are eased in by scaling
+  const [baseSize] = useState(node.size);
   const color = new THREE.Color(node.color);
 
   // Animate the sphere
   useFrame((state) => {
+    if (bodyRef.current) {
+      const target = node.size / baseSize;
+      const scale = THREE.MathUtils.lerp(bodyRef.current.scale.x, target, 0.1);
+      bodyRef.current.scale.setScalar(scale);
+    }
+
     if (meshRef.current) {
       // Gentle floating animation
       meshRef.current.position.y =
@@ -45,6 +59,13 @@ export default function TopicCluster({
       }
     }
 
+    // Trending: a warm shell that repeatedly expands and fades out
+    if (pulseRef.current) {
+      const t = (state.clock.elapsedTime * 0.8) % 1;
+      pulseRef.current.scale.setScalar(1 + t);
+      (pulseRef.current.material as THREE.MeshBasicMaterial).opacity = 0.4 * (1 - t);
+    }
+
     // Animate glow
     if (glowRef.current) {
       const glowScale = (isHighlighted || hovered || isSelected) ? 1.5 : 1.2;
@@ -66,46 +87,55 @@ export default function TopicCluster({
 
   return (
     <group position={[node.x, node.y, node.z]}>
-      {/* Glow effect */}
-      <Sphere ref={glowRef} args={[baseSize * 1.2, 32, 32]}>
-        <meshBasicMaterial
-          color={color}
-          transparent
-          opacity={isHighlighted || hovered || isSelected ? 0.3 : 0.15}
-        />
-      </Sphere>
-
-      {/* Main sphere */}
-      <Sphere
-        ref={meshRef}
-        args={[baseSize, 32, 32]}
-        onClick={onClick}
-        onPointerOver={handlePointerOver}
-        onPointerOut={handlePointerOut}
-      >
-        <meshStandardMaterial
-          color={color}
-          emissive={color}
-          emissiveIntensity={isHighlighted || hovered || isSelected ? 0.5 : 0.2}
-          roughness={0.3}
-          metalness={0.7}
-        />
-      </Sphere>
-
-      {/* Orbiting particles for visual effect */}
-      {Array.from({ length: Math.min(topic.postCount, 8) }).map((_, i) => (
-        <OrbitingParticle
-          key={i}
-          radius={baseSize * 1.5}
-          color={color}
-          index={i}
-          total={Math.min(topic.postCount, 8)}
-        />
-      ))}
+      <group ref={bodyRef}>
+        {/* Glow effect */}
+        <Sphere ref={glowRef} args={[baseSize * 1.2, 32, 32]}>
+          <meshBasicMaterial
+            color={color}
+            transparent
+            opacity={isHighlighted || hovered || isSelected ? 0.3 : 0.15}
+          />
+        </Sphere>
+
+        {/* Trending pulse */}
+        {isTrending && (
+          <Sphere ref={pulseRef} args={[baseSize * 1.2, 32, 32]}>
+            <meshBasicMaterial color={TRENDING_COLOR} transparent opacity={0.4} depthWrite={false} />
+          </Sphere>
+        )}
+
+        {/* Main sphere */}
+        <Sphere
+          ref={meshRef}
+          args={[baseSize, 32, 32]}
+          onClick={onClick}
+          onPointerOver={handlePointerOver}
+          onPointerOut={handlePointerOut}
+        >
+          <meshStandardMaterial
+            color={color}
+            emissive={color}
+            emissiveIntensity={isHighlighted || hovered || isSelected ? 0.5 : 0.2}
+            roughness={0.3}
+            metalness={0.7}
+          />
+        </Sphere>
+
+        {/* Orbiting particles for visual effect */}
+        {Array.from({ length: Math.min(topic.postCount, 8) }).map((_, i) => (
+          <OrbitingParticle
+            key={i}
+            radius={baseSize * 1.5}
+            color={color}
+            index={i}
+            total={Math.min(topic.postCount, 8)}
+          />
+        ))}
+      </group>
 
       {/* Label */}
       <Text
-        position={[0, baseSize + 1.5, 0]}
+        position={[0, node.size + 1.5, 0]}
         fontSize={1}
         color="white"
         anchorX="center"
@@ -118,7 +148,7 @@ export default function TopicCluster({
 
       {/* Post count badge */}
       <Text
-        position={[0, -baseSize - 0.8, 0]}
+        position={[0, -node.size - 0.8, 0]}
         fontSize={0.6}
         color="#9ca3af"
         anchorX="center"
@@ -0,0 +1,282 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Post, Topic, TopicEdit } from "@/types";
+
+interface TopicEditorProps {
+  topic: Topic;
+  peers: Topic[]; // Topics on the same level, which it can merge into or move posts to
+  adminToken: string; // Sent with every edit
+  onChange: (topicId: string) => void; // Called after an edit, with the topic to keep editing
+  onClose: () => void;
+}
+
+const POST_PAGE_SIZE = 50;
+const SPLIT_PARTS = [2, 3, 4, 5, 6, 7, 8];
+
+function describeEdit(edit: TopicEdit): string {
+  const d = edit.details as Record<string, { id?: string; name?: string; from?: unknown; to?: unknown }>;
+  switch (edit.action) {
+    case "update":
+      return Object.entries(d)
+        .map(([field, change]) => `${field}: ${change.from ?? "—"} → ${change.to}`)
+        .join(", ");
+    case "merge":
+      return `Merged "${d.from.name}" into this topic`;
+    case "split":
+      return `Split into ${(edit.details.into as unknown[]).length} topics`;
+    case "move":
+      return `Moved ${(edit.details.postIds as unknown[]).length} posts to "${d.to.name}"`;
+  }
+}
+
+// Fix a topic by hand: relabel, recolor, lock, merge, split or move posts.
+// Every edit lands in the audit log shown at the bottom.
+export default function TopicEditor({ topic, peers, adminToken, onChange, onClose }: TopicEditorProps) {
+  const [name, setName] = useState(topic.name);
+  const [description, setDescription] = useState(topic.description ?? "");
+  const [color, setColor] = useState(topic.color);
+  const [locked, setLocked] = useState(topic.locked ?? false);
+  const [mergeTarget, setMergeTarget] = useState("");
+  const [splitParts, setSplitParts] = useState(2);
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [selectedPosts, setSelectedPosts] = useState<Set<string>>(new Set());
+  const [moveTarget, setMoveTarget] = useState("");
+  const [edits, setEdits] = useState<TopicEdit[]>([]);
+  const [version, setVersion] = useState(0); // Bumped after each edit to reload posts and log
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      fetch(`/api/topics/${topic.id}?limit=${POST_PAGE_SIZE}`).then((res) => res.json()),
+      fetch(`/api/topics/edits?topicId=${topic.id}`).then((res) => res.json()),
+    ])
+      .then(([topicData, editsData]) => {
+        if (cancelled) return;
+        setPosts(topicData.posts || []);
+        setEdits(editsData.edits || []);
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [topic.id, version]);
+
+  // Send an edit, then report back with the topic to show next
+  const submit = async (path: string, method: string, body: object, nextTopicId: string) => {
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/topics/${topic.id}${path}`, {
+        method,
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${adminToken}` },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      setMessage(data.error || data.message);
+      if (res.ok) {
+        setSelectedPosts(new Set());
+        setVersion((v) => v + 1);
+        onChange(nextTopicId);
+      }
+    } catch (error) {
+      console.error(error);
+      setMessage("Request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const togglePost = (postId: string) => {
+    const next = new Set(selectedPosts);
+    if (next.has(postId)) next.delete(postId);
+    else next.add(postId);
+    setSelectedPosts(next);
+  };
+
+  const sectionTitle = "text-xs text-gray-500 uppercase tracking-wider mb-2";
+  const field = "w-full bg-gray-800 text-gray-200 rounded px-2 py-1 text-sm";
+  const action =
+    "px-3 py-1 rounded text-sm bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50 disabled:hover:bg-blue-600";
+
+  return (
+    <div className="absolute right-4 top-4 bottom-4 w-96 z-50">
+      <div className="bg-gray-900/95 backdrop-blur-sm rounded-xl border border-gray-700 h-full flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-gray-800 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: topic.color }} />
+            <span className="text-gray-400 text-sm">Edit topic</span>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors p-1">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          {message && <div className="text-sm text-gray-300 bg-gray-800/50 rounded px-3 py-2">{message}</div>}
+
+          {/* Label, color and lock */}
+          <section className="space-y-2">
+            <div className={sectionTitle}>Label</div>
+            <input value={name} onChange={(e) => setName(e.target.value)} className={field} />
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              className={field}
+              placeholder="Description"
+            />
+            <div className="flex items-center gap-4 text-sm text-gray-400">
+              <label className="flex items-center gap-2">
+                Color
+                <input
+                  type="color"
+                  value={color}
+                  onChange={(e) => setColor(e.target.value)}
+                  className="w-8 h-6 bg-transparent"
+                />
+              </label>
+              {!topic.parentId && (
+                <label className="flex items-center gap-1.5 cursor-pointer" title="Keep this topic through re-clusters">
+                  <input
+                    type="checkbox"
+                    checked={locked}
+                    onChange={(e) => setLocked(e.target.checked)}
+                    className="accent-blue-500"
+                  />
+                  Locked
+                </label>
+              )}
+            </div>
+            <button
+              disabled={busy || !name.trim()}
+              onClick={() =>
+                submit(
+                  "",
+                  "PATCH",
+                  { name, description, color, ...(!topic.parentId && { locked }) },
+                  topic.id
+                )
+              }
+              className={action}
+            >
+              Save
+            </button>
+          </section>
+
+          {/* Merge */}
+          <section className="pt-4 border-t border-gray-800 space-y-2">
+            <div className={sectionTitle}>Merge into</div>
+            <select value={mergeTarget} onChange={(e) => setMergeTarget(e.target.value)} className={field}>
+              <option value="">Choose a topic…</option>
+              {peers.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name} ({t.postCount})
+                </option>
+              ))}
+            </select>
+            <button
+              disabled={busy || !mergeTarget}
+              onClick={() => submit("/merge", "POST", { targetId: mergeTarget }, mergeTarget)}
+              className={action}
+            >
+              Merge
+            </button>
+          </section>
+
+          {/* Split */}
+          <section className="pt-4 border-t border-gray-800">
+            <div className={sectionTitle}>Split</div>
+            <div className="flex items-center gap-2 text-sm text-gray-400">
+              Into
+              <select
+                value={splitParts}
+                onChange={(e) => setSplitParts(Number(e.target.value))}
+                className="bg-gray-800 text-gray-200 rounded px-2 py-1 text-sm"
+              >
+                {SPLIT_PARTS.map((k) => (
+                  <option key={k} value={k}>
+                    {k}
+                  </option>
+                ))}
+              </select>
+              topics
+              <button
+                disabled={busy}
+                onClick={() => submit("/split", "POST", { k: splitParts }, topic.id)}
+                className={`${action} ml-auto`}
+              >
+                Split
+              </button>
+            </div>
+          </section>
+
+          {/* Move posts */}
+          <section className="pt-4 border-t border-gray-800 space-y-2">
+            <div className={sectionTitle}>Move posts</div>
+            <div className="max-h-48 overflow-y-auto space-y-0.5">
+              {posts.map((p) => (
+                <label
+                  key={p.id}
+                  className="flex items-center gap-2 px-1 py-0.5 rounded text-sm text-gray-300 hover:bg-gray-800 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedPosts.has(p.id)}
+                    onChange={() => togglePost(p.id)}
+                    className="accent-blue-500"
+                  />
+                  <span className="truncate">{p.title || p.content.slice(0, 80)}</span>
+                </label>
+              ))}
+            </div>
+            <select value={moveTarget} onChange={(e) => setMoveTarget(e.target.value)} className={field}>
+              <option value="">Move to…</option>
+              {peers.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+            <button
+              disabled={busy || !moveTarget || selectedPosts.size === 0}
+              onClick={() =>
+                submit("/move", "POST", { postIds: [...selectedPosts], targetId: moveTarget }, topic.id)
+              }
+              className={action}
+            >
+              Move {selectedPosts.size > 0 ? selectedPosts.size : ""} posts
+            </button>
+          </section>
+
+          {/* Audit log */}
+          {edits.length > 0 && (
+            <section className="pt-4 border-t border-gray-800">
+              <div className={sectionTitle}>Edit history</div>
+              <div className="space-y-1.5">
+                {edits.map((edit) => (
+                  <div key={edit.id} className="text-xs">
+                    <span className="text-gray-500">
+                      {new Date(edit.createdAt).toLocaleString("en-US", {
+                        month: "short",
+                        day: "numeric",
+                        hour: "numeric",
+                        minute: "2-digit",
+                      })}
+                    </span>{" "}
+                    <span className="text-gray-300">{describeEdit(edit)}</span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { TopicRunDiff, TopicRunSummary, TopicVersion } from "@/types";
+
+interface TopicHistoryProps {
+  liveTopicIds: Set<string>; // Topics on the map now; only these are clickable
+  onTopicClick: (topicId: string) => void;
+  onClose: () => void;
+}
+
+function formatRun(run: TopicRunSummary): string {
+  const date = new Date(run.createdAt).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  return `${date} · ${run.type} · ${run.topicCount} topics`;
+}
+
+// Compare the topics of two clustering runs
+export default function TopicHistory({ liveTopicIds, onTopicClick, onClose }: TopicHistoryProps) {
+  const [runs, setRuns] = useState<TopicRunSummary[]>([]);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<TopicRunDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default to the latest run against the one before it
+  useEffect(() => {
+    fetch("/api/topics/history")
+      .then((res) => res.json())
+      .then((data) => {
+        const list: TopicRunSummary[] = data.runs || [];
+        setRuns(list);
+        if (list.length >= 2) {
+          setToId(list[0].id);
+          setFromId(list[1].id);
+        } else {
+          setError("Need at least two clustering runs to compare");
+        }
+      })
+      .catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    if (!fromId || !toId) return;
+
+    let cancelled = false;
+    fetch(`/api/topics/history/diff?from=${fromId}&to=${toId}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (cancelled) return;
+        if (data.error) {
+          setError(data.error);
+        } else {
+          setError(null);
+          setDiff(data);
+        }
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [fromId, toId]);
+
+  const renderTopic = (topic: TopicVersion) => {
+    const live = liveTopicIds.has(topic.topicId);
+    return (
+      <button
+        key={topic.topicId}
+        onClick={() => live && onTopicClick(topic.topicId)}
+        disabled={!live}
+        className="inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-xs bg-gray-800 text-gray-300 enabled:hover:bg-gray-700 disabled:opacity-60"
+        title={`${topic.postCount} posts`}
+      >
+        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: topic.color }} />
+        {topic.name}
+      </button>
+    );
+  };
+
+  const runSelect = (value: string | null, onChange: (id: string) => void) => (
+    <select
+      value={value || ""}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full bg-gray-800 text-gray-300 rounded px-2 py-1 text-xs"
+    >
+      {runs.map((run) => (
+        <option key={run.id} value={run.id}>
+          {formatRun(run)}
+        </option>
+      ))}
+    </select>
+  );
+
+  const isEmpty =
+    diff &&
+    diff.born.length + diff.died.length + diff.merged.length + diff.split.length + diff.renamed.length === 0;
+
+  return (
+    <div className="absolute left-4 bottom-16 z-50 w-96 max-h-[60vh] flex flex-col bg-gray-900/95 backdrop-blur-sm rounded-xl border border-gray-700 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-800 flex items-center justify-between">
+        <span className="text-xs text-gray-500 uppercase tracking-wider">Topic history</span>
+        <button onClick={onClose} className="text-gray-400 hover:text-white p-1" title="Close">
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {runs.length >= 2 && (
+        <div className="px-4 py-3 border-b border-gray-800 space-y-2 text-xs text-gray-500">
+          <label className="block">
+            From
+            {runSelect(fromId, setFromId)}
+          </label>
+          <label className="block">
+            To
+            {runSelect(toId, setToId)}
+          </label>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-4 text-sm">
+        {error && <div className="text-gray-500">{error}</div>}
+        {isEmpty && <div className="text-gray-500">No topic changes between these runs</div>}
+
+        {diff && !error && (
+          <>
+            {diff.born.length > 0 && (
+              <section>
+                <div className="text-green-400 text-xs mb-1">Born ({diff.born.length})</div>
+                <div className="flex flex-wrap gap-1">{diff.born.map(renderTopic)}</div>
+              </section>
+            )}
+
+            {diff.died.length > 0 && (
+              <section>
+                <div className="text-red-400 text-xs mb-1">Died ({diff.died.length})</div>
+                <div className="flex flex-wrap gap-1">{diff.died.map(renderTopic)}</div>
+              </section>
+            )}
+
+            {diff.merged.length > 0 && (
+              <section>
+                <div className="text-purple-400 text-xs mb-1">Merged ({diff.merged.length})</div>
+                {diff.merged.map((m) => (
+                  <div key={m.into.topicId} className="flex flex-wrap items-center gap-1 mb-1">
+                    {m.from.map(renderTopic)}
+                    <span className="text-gray-500">→</span>
+                    {renderTopic(m.into)}
+                  </div>
+                ))}
+              </section>
+            )}
+
+            {diff.split.length > 0 && (
+              <section>
+                <div className="text-yellow-400 text-xs mb-1">Split ({diff.split.length})</div>
+                {diff.split.map((s) => (
+                  <div key={s.from.topicId} className="flex flex-wrap items-center gap-1 mb-1">
+                    {renderTopic(s.from)}
+                    <span className="text-gray-500">→</span>
+                    {s.into.map(renderTopic)}
+                  </div>
+                ))}
+              </section>
+            )}
+
+            {diff.renamed.length > 0 && (
+              <section>
+                <div className="text-blue-400 text-xs mb-1">Renamed ({diff.renamed.length})</div>
+                {diff.renamed.map((r) => (
+                  <div key={r.topic.topicId} className="flex items-center gap-1 mb-1">
+                    <span className="text-gray-500 line-through truncate">{r.previousName}</span>
+                    <span className="text-gray-500">→</span>
+                    {renderTopic(r.topic)}
+                  </div>
+                ))}
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
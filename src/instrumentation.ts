@@ -0,0 +1,16 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  // Jobs left "running" by a previous process will never finish on their own
+  const { markStaleJobs } = await import("@/lib/jobs");
+  await markStaleJobs().catch((error) =>
+    console.error("Failed to check for stale jobs:", error)
+  );
+
+  // Full-text search reads generated columns Prisma can't create
+  const { ensureSearchVectors } = await import("@/lib/search");
+  await ensureSearchVectors().catch((error) =>
+    console.error("Failed to set up full-text search columns:", error)
+  );
+}
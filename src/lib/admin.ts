@@ -0,0 +1,13 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest } from "next/server";
+
+// Topic curation is admin-only. Requests carry ADMIN_TOKEN as a bearer
+// token; with no ADMIN_TOKEN set, nobody is an admin.
+export function isAdmin(request: NextRequest): boolean {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) return false;
+
+  const given = Buffer.from(request.headers.get("authorization") ?? "");
+  const expected = Buffer.from(`Bearer ${token}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,69 @@
+import { AIProvider, ProviderConfig } from "@/lib/providers/types";
+import { createOpenAIProvider } from "@/lib/providers/openai";
+import { createLocalProvider } from "@/lib/providers/local";
+
+// Embedding dimension of the configured model. Must match the vectors already
+// stored in the database; re-embed (and re-cluster) after changing it.
+export const EMBEDDING_DIMENSION = parseInt(process.env.EMBEDDING_DIMENSION || "1536");
+
+const globalForProvider = globalThis as unknown as {
+  aiProvider: AIProvider | undefined;
+};
+
+// Pick the provider from AI_PROVIDER: "openai" (default), "openai-compatible"
+// (any OpenAI-style HTTP server at AI_BASE_URL, e.g. Ollama or llama.cpp)
+// or "local" (deterministic and offline)
+function createProvider(): AIProvider {
+  const provider = process.env.AI_PROVIDER || "openai";
+  const config: ProviderConfig = {
+    dimension: EMBEDDING_DIMENSION,
+    embeddingModel: process.env.EMBEDDING_MODEL || "text-embedding-3-small",
+    chatModel: process.env.CHAT_MODEL || "gpt-5-mini",
+  };
+
+  switch (provider) {
+    case "openai":
+      return createOpenAIProvider({ ...config, apiKey: process.env.OPENAI_API_KEY });
+    case "openai-compatible":
+      if (!process.env.AI_BASE_URL) {
+        throw new Error("AI_BASE_URL is required for the openai-compatible provider");
+      }
+      return createOpenAIProvider({
+        ...config,
+        baseURL: process.env.AI_BASE_URL,
+        apiKey: process.env.AI_API_KEY,
+      });
+    case "local":
+      return createLocalProvider(config);
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${provider}"`);
+  }
+}
+
+export function getProvider(): AIProvider {
+  globalForProvider.aiProvider ??= createProvider();
+  return globalForProvider.aiProvider;
+}
+
+// Generate embeddings for text
+export async function generateEmbedding(text: string): Promise<number[]> {
+  const [embedding] = await getProvider().embed([text]);
+  return embedding;
+}
+
+// Generate embeddings for multiple texts (batch)
+export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+  return getProvider().embed(texts);
+}
+
+// Extract topic tags from content
+export async function extractTopics(content: string): Promise<string[]> {
+  return getProvider().extractTopics(content);
+}
+
+// Generate a summary/label for a cluster of posts
+export async function generateClusterLabel(
+  postContents: string[]
+): Promise<{ name: string; description: string }> {
+  return getProvider().generateClusterLabel(postContents);
+}
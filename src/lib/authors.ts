@@ -0,0 +1,73 @@
+import prisma from "@/lib/db";
+import { parseVector } from "@/lib/topics";
+import { AuthorProfile } from "@/types";
+
+const MAX_AUTHOR_POSTS = 5000; // Post ids returned for highlighting
+
+// Posts ingested before authors were recorded have no Author row; take the
+// name and count from the posts themselves
+async function authorFromPosts(
+  id: string
+): Promise<{ id: string; name: string; postCount: number } | null> {
+  const [latest, postCount] = await Promise.all([
+    prisma.post.findFirst({
+      where: { authorId: id, author: { not: null } },
+      orderBy: { createdAt: "desc" },
+      select: { author: true },
+    }),
+    prisma.post.count({ where: { authorId: id } }),
+  ]);
+  if (postCount === 0) return null;
+  return { id, name: latest?.author ?? id, postCount };
+}
+
+// An author with the topics, daily activity and mean embedding of their posts
+export async function loadAuthorProfile(id: string): Promise<AuthorProfile | null> {
+  const author = (await prisma.author.findUnique({ where: { id } })) ?? (await authorFromPosts(id));
+  if (!author) return null;
+
+  const [topics, timeline, mean, posts] = await Promise.all([
+    prisma.$queryRaw<Array<{ id: string; name: string; color: string; count: number }>>`
+      WITH primary_topics AS (
+        SELECT DISTINCT ON (pt.post_id) pt.post_id, pt.topic_id
+        FROM post_topics pt
+        JOIN topics t ON t.id = pt.topic_id AND t.parent_id IS NULL
+        JOIN posts p ON p.id = pt.post_id AND p.author_id = ${id}
+        ORDER BY pt.post_id, pt.relevance DESC
+      )
+      SELECT t.id, t.name, t.color, COUNT(*)::int AS count
+      FROM primary_topics pr
+      JOIN topics t ON t.id = pr.topic_id
+      GROUP BY t.id, t.name, t.color
+      ORDER BY count DESC
+    `,
+    prisma.$queryRaw<Array<{ day: Date; count: number }>>`
+      SELECT date_trunc('day', created_at) AS day, COUNT(*)::int AS count
+      FROM posts
+      WHERE author_id = ${id}
+      GROUP BY 1
+      ORDER BY 1
+    `,
+    prisma.$queryRaw<Array<{ mean: string | null }>>`
+      SELECT AVG(embedding)::text AS mean
+      FROM posts
+      WHERE author_id = ${id} AND embedding IS NOT NULL
+    `,
+    prisma.post.findMany({
+      where: { authorId: id },
+      select: { id: true },
+      orderBy: { createdAt: "desc" },
+      take: MAX_AUTHOR_POSTS,
+    }),
+  ]);
+
+  return {
+    id: author.id,
+    name: author.name,
+    postCount: author.postCount,
+    topics: topics.map((t) => ({ topicId: t.id, name: t.name, color: t.color, count: t.count })),
+    timeline: timeline.map((row) => ({ date: row.day.toISOString(), count: row.count })),
+    meanEmbedding: mean[0]?.mean ? parseVector(mean[0].mean) : null,
+    postIds: posts.map((p) => p.id),
+  };
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  matchCentroids,
+  rankCentroids,
+  computeProjectionBasis,
+  embedTo3D,
+  encodeCompactGraph,
+  decodeCompactGraph,
+} from "@/lib/clustering";
+import { CompactGraph } from "@/types";
+
+describe("matchCentroids", () => {
+  it("pairs the most similar centroids first, each previous one at most once", () => {
+    const previous = [
+      [1, 0, 0],
+      [0, 1, 0],
+    ];
+    const next = [
+      [0.9, 0.1, 0], // close to previous 0
+      [1, 0, 0], // closer to previous 0
+      [0, 1, 0.1], // close to previous 1
+    ];
+
+    const matches = matchCentroids(previous, next, 0.8);
+
+    expect(matches.get(1)).toBe(0);
+    expect(matches.get(2)).toBe(1);
+    expect(matches.has(0)).toBe(false);
+  });
+
+  it("leaves centroids below the threshold unmatched", () => {
+    const matches = matchCentroids([[1, 0]], [[0, 1]], 0.5);
+    expect(matches.size).toBe(0);
+  });
+});
+
+describe("rankCentroids", () => {
+  const centroids = [
+    [1, 0],
+    [0, 1],
+    [1, 1],
+    [-1, 0],
+  ];
+
+  it("returns the top N centroids by similarity", () => {
+    const ranked = rankCentroids([1, 0.2], centroids, 2, 0);
+    expect(ranked.map((r) => r.index)).toEqual([0, 2]);
+    expect(ranked[0].similarity).toBeGreaterThan(ranked[1].similarity);
+  });
+
+  it("drops centroids below minSimilarity", () => {
+    const ranked = rankCentroids([1, 0], centroids, 10, 0.5);
+    expect(ranked.map((r) => r.index)).toEqual([0, 2]);
+  });
+});
+
+describe("computeProjectionBasis", () => {
+  const embeddings = Array.from({ length: 20 }, (_, i) => [
+    Math.sin(i),
+    Math.cos(i * 0.7),
+    i / 10,
+    (i % 3) - 1,
+    Math.sin(i * 1.3) * 0.5,
+  ]);
+
+  it("is deterministic for a given seed", () => {
+    expect(computeProjectionBasis(embeddings, 7)).toEqual(computeProjectionBasis(embeddings, 7));
+  });
+
+  it("returns three orthonormal components", () => {
+    const { components } = computeProjectionBasis(embeddings);
+    expect(components).toHaveLength(3);
+    components.forEach((a, i) => {
+      components.forEach((b, j) => {
+        const dot = a.reduce((sum, val, k) => sum + val * b[k], 0);
+        expect(dot).toBeCloseTo(i === j ? 1 : 0, 3);
+      });
+    });
+  });
+
+  it("projects the mean to the origin", () => {
+    const basis = computeProjectionBasis(embeddings);
+    const [origin] = embedTo3D([basis.mean], basis);
+    expect(origin.x).toBeCloseTo(0);
+    expect(origin.y).toBeCloseTo(0);
+    expect(origin.z).toBeCloseTo(0);
+  });
+});
+
+describe("encodeCompactGraph / decodeCompactGraph", () => {
+  it("round-trips a graph", () => {
+    const graph: CompactGraph = {
+      topics: [{ id: "t1", name: "Agents", color: "#ef4444" }],
+      submolts: [{ id: "s1", name: "general", displayName: "General" }],
+      colors: ["#ef4444", "#3b82f6"],
+      ids: ["p1", "p2"],
+      labels: ["First post", "Second — ünïcode 🦞"],
+      positions: [1.5, -2.25, 3, 0, 0.5, -1],
+      sizes: [1, 2.5],
+      colorIndex: [0, 1],
+      topicIndex: [0, -1],
+      submoltIndex: [-1, 0],
+      times: [1700000000, 1700000100],
+      duplicates: [0, 3],
+      links: { post: [0, 1], topic: [0, 0], strength: [1, 0.75] },
+    };
+
+    expect(decodeCompactGraph(encodeCompactGraph(graph))).toEqual(graph);
+  });
+
+  it("round-trips an empty graph", () => {
+    const graph: CompactGraph = {
+      topics: [],
+      submolts: [],
+      colors: [],
+      ids: [],
+      labels: [],
+      positions: [],
+      sizes: [],
+      colorIndex: [],
+      topicIndex: [],
+      submoltIndex: [],
+      times: [],
+      duplicates: [],
+      links: { post: [], topic: [], strength: [] },
+    };
+
+    expect(decodeCompactGraph(encodeCompactGraph(graph))).toEqual(graph);
+  });
+});
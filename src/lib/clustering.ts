@@ -1,4 +1,14 @@
-import { GraphData, GraphNode, GraphLink, Topic, Post } from "@/types";
+import {
+  GraphData,
+  GraphNode,
+  GraphLink,
+  GroupBy,
+  Topic,
+  Post,
+  Submolt,
+  CompactGraph,
+  GalaxyData,
+} from "@/types";
 
 // Color palette for topics
 const TOPIC_COLORS = [
@@ -18,33 +28,107 @@ export function getTopicColor(index: number): string {
   return TOPIC_COLORS[index % TOPIC_COLORS.length];
 }
 
-// Convert topics and posts to graph data for 3D visualization
+// Sphere size for a topic or submolt with this many posts
+export function clusterSize(postCount: number): number {
+  return Math.max(1, Math.log(postCount + 1) * 2);
+}
+
+// Convert topics and posts to graph data for 3D visualization.
+// With groupBy "submolt", posts are arranged around their Moltbook community
+// instead of their topic; `overlay` adds submolt -> topic links weighted by
+// the share of the submolt's posts in each topic. Topic-to-topic `bonds`
+// at or above `bondThreshold` are kept as links between topic nodes.
 export function buildGraphData(
   topics: Topic[],
   posts: Post[],
-  mode: "topics" | "posts" | "all" = "topics"
+  mode: "topics" | "posts" | "all" = "topics",
+  options: {
+    groupBy?: GroupBy;
+    submolts?: Submolt[];
+    overlay?: boolean;
+    bonds?: GraphLink[];
+    bondThreshold?: number;
+  } = {}
 ): GraphData {
   const nodes: GraphNode[] = [];
   const links: GraphLink[] = [];
+  const {
+    groupBy = "topic",
+    submolts = [],
+    overlay = false,
+    bonds = [],
+    bondThreshold = 0,
+  } = options;
+
+  const showTopics = groupBy === "topic" || overlay;
+  const showSubmolts = groupBy === "submolt" || overlay;
 
   if (mode === "topics" || mode === "all") {
     // Add topic nodes
-    topics.forEach((topic) => {
-      nodes.push({
-        id: topic.id,
-        type: "topic",
-        label: topic.name,
-        color: topic.color,
-        size: Math.max(1, Math.log(topic.postCount + 1) * 2), // Scale by post count
-        x: topic.posX ?? (Math.random() - 0.5) * 100,
-        y: topic.posY ?? (Math.random() - 0.5) * 100,
-        z: topic.posZ ?? (Math.random() - 0.5) * 100,
-        data: topic,
+    if (showTopics) {
+      topics.forEach((topic) => {
+        nodes.push({
+          id: topic.id,
+          type: "topic",
+          label: topic.name,
+          color: topic.color,
+          size: clusterSize(topic.postCount), // Scale by post count
+          x: topic.posX ?? (Math.random() - 0.5) * 100,
+          y: topic.posY ?? (Math.random() - 0.5) * 100,
+          z: topic.posZ ?? (Math.random() - 0.5) * 100,
+          data: topic,
+        });
       });
-    });
+
+      // Bond related topics
+      const topicIds = new Set(topics.map((t) => t.id));
+      bonds
+        .filter(
+          (bond) =>
+            bond.strength >= bondThreshold &&
+            topicIds.has(bond.source) &&
+            topicIds.has(bond.target)
+        )
+        .forEach((bond) => links.push(bond));
+    }
+
+    // Add submolt nodes
+    if (showSubmolts) {
+      const topicIds = new Set(topics.map((t) => t.id));
+
+      submolts.forEach((submolt) => {
+        nodes.push({
+          id: submolt.id,
+          type: "submolt",
+          label: submolt.displayName,
+          color: submolt.color,
+          size: clusterSize(submolt.postCount),
+          x: submolt.posX ?? (Math.random() - 0.5) * 100,
+          y: submolt.posY ?? (Math.random() - 0.5) * 100,
+          z: submolt.posZ ?? (Math.random() - 0.5) * 100,
+          data: submolt,
+        });
+
+        // Link each submolt to the topics its posts are spread across
+        if (overlay) {
+          const total = submolt.topics.reduce((sum, t) => sum + t.count, 0);
+          submolt.topics
+            .filter((t) => topicIds.has(t.topicId))
+            .forEach((t) => {
+              links.push({
+                source: submolt.id,
+                target: t.topicId,
+                strength: t.count / total,
+              });
+            });
+        }
+      });
+    }
   }
 
   if (mode === "posts" || mode === "all") {
+    const topicIds = new Set(topics.map((t) => t.id));
+
     // Add post nodes
     posts.forEach((post) => {
       const primaryTopic = post.topics?.[0];
@@ -60,15 +144,22 @@ export function buildGraphData(
         data: post,
       });
 
-      // Link posts to their topics
-      if (mode === "all" && post.topics) {
-        post.topics.forEach((topic) => {
-          links.push({
-            source: post.id,
-            target: topic.id,
-            strength: topic.relevance,
-          });
-        });
+      // Link posts to their group
+      if (mode === "all") {
+        if (groupBy === "submolt" && post.submolt) {
+          links.push({ source: post.id, target: post.submolt.id, strength: 1 });
+        } else if (groupBy === "topic" && post.topics) {
+          // One bond per assigned topic on the map, weighted by relevance
+          post.topics
+            .filter((topic) => topicIds.has(topic.id))
+            .forEach((topic) => {
+              links.push({
+                source: post.id,
+                target: topic.id,
+                strength: topic.relevance,
+              });
+            });
+        }
       }
     });
   }
@@ -76,6 +167,61 @@ export function buildGraphData(
   return { nodes, links };
 }
 
+// The graph as of a moment in a time-lapse: topics sized by how many posts
+// they had by then (topics with none yet are dropped), and posts limited to
+// those created within the time window (epoch ms)
+export function graphAtTime(
+  graph: GraphData,
+  topicCounts: Map<string, number>,
+  window: { from: number; to: number }
+): GraphData {
+  const nodes = graph.nodes.flatMap((node) => {
+    // Subtopics have no counts of their own; they are left as they are
+    if (node.type === "topic" && topicCounts.has(node.id)) {
+      const count = topicCounts.get(node.id)!;
+      return count > 0
+        ? [{ ...node, size: clusterSize(count), data: { ...(node.data as Topic), postCount: count } }]
+        : [];
+    }
+    if (node.type === "post") {
+      const time = new Date((node.data as Post).createdAt).getTime();
+      return time >= window.from && time <= window.to ? [node] : [];
+    }
+    return [node];
+  });
+
+  const ids = new Set(nodes.map((n) => n.id));
+  return {
+    nodes,
+    links: graph.links.filter((l) => ids.has(l.source) && ids.has(l.target)),
+  };
+}
+
+// The galaxy limited to posts created within the time window (epoch ms)
+export function galaxyAtTime(galaxy: GalaxyData, window: { from: number; to: number }): GalaxyData {
+  const keep: number[] = [];
+  galaxy.times.forEach((time, i) => {
+    if (time >= window.from && time <= window.to) keep.push(i);
+  });
+
+  const positions = new Float32Array(keep.length * 3);
+  const colors = new Float32Array(keep.length * 3);
+  keep.forEach((i, j) => {
+    positions.set(galaxy.positions.subarray(i * 3, i * 3 + 3), j * 3);
+    colors.set(galaxy.colors.subarray(i * 3, i * 3 + 3), j * 3);
+  });
+
+  return {
+    ids: keep.map((i) => galaxy.ids[i]),
+    labels: keep.map((i) => galaxy.labels[i]),
+    positions,
+    colors,
+    topicIds: keep.map((i) => galaxy.topicIds[i]),
+    times: new Float64Array(keep.map((i) => galaxy.times[i])),
+    total: keep.length,
+  };
+}
+
 // Calculate cosine similarity between two vectors
 export function cosineSimilarity(a: number[], b: number[]): number {
   if (a.length !== b.length) return 0;
@@ -93,6 +239,70 @@ export function cosineSimilarity(a: number[], b: number[]): number {
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
+// Find the centroid most similar to an embedding
+export function findNearestCentroid(
+  embedding: number[],
+  centroids: number[][]
+): { index: number; similarity: number } {
+  let best = { index: -1, similarity: -Infinity };
+
+  centroids.forEach((centroid, i) => {
+    const similarity = cosineSimilarity(embedding, centroid);
+    if (similarity > best.similarity) {
+      best = { index: i, similarity };
+    }
+  });
+
+  return best;
+}
+
+// Pair new centroids with previous ones, most similar pairs first, each
+// previous centroid used at most once. Returns new index -> previous index
+// for pairs at or above the threshold.
+export function matchCentroids(
+  previous: number[][],
+  next: number[][],
+  threshold: number
+): Map<number, number> {
+  const pairs: Array<{ prev: number; next: number; similarity: number }> = [];
+  next.forEach((centroid, j) => {
+    previous.forEach((prevCentroid, i) => {
+      const similarity = cosineSimilarity(centroid, prevCentroid);
+      if (similarity >= threshold) pairs.push({ prev: i, next: j, similarity });
+    });
+  });
+  pairs.sort((a, b) => b.similarity - a.similarity);
+
+  const matches: Map<number, number> = new Map();
+  const usedPrevious = new Set<number>();
+  pairs.forEach(({ prev, next: j }) => {
+    if (matches.has(j) || usedPrevious.has(prev)) return;
+    matches.set(j, prev);
+    usedPrevious.add(prev);
+  });
+  return matches;
+}
+
+// Rank centroids by similarity to an embedding, keeping the top N that
+// reach minSimilarity
+export function rankCentroids(
+  embedding: number[],
+  centroids: number[][],
+  topN: number,
+  minSimilarity: number
+): { index: number; similarity: number }[] {
+  return centroids
+    .map((centroid, index) => ({ index, similarity: cosineSimilarity(embedding, centroid) }))
+    .filter((c) => c.similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, topN);
+}
+
+// Pick a cluster count for a dataset: more topics for larger datasets
+export function suggestClusterCount(n: number): number {
+  return Math.min(Math.max(Math.ceil(n / 20), 5), 50);
+}
+
 // Simple k-means clustering for embeddings
 export function kMeansClustering(
   embeddings: number[][],
@@ -160,29 +370,211 @@ export function kMeansClustering(
   return { clusters, centroids };
 }
 
-// Reduce embeddings to 3D for visualization using PCA-like approach
-export function embedTo3D(embeddings: number[][]): { x: number; y: number; z: number }[] {
-  if (embeddings.length === 0) return [];
+// Basis for projecting embeddings into 3D (principal components of a corpus)
+export interface ProjectionBasis {
+  mean: number[];
+  components: number[][]; // 3 unit vectors, strongest variance first
+  scale: number;
+}
+
+const LAYOUT_RADIUS = 25; // Std-dev of the first axis in scene units
+const PCA_ITERATIONS = 100;
+
+// Small seeded PRNG (mulberry32) so layouts are reproducible
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function normalize(v: number[]): number[] {
+  const norm = Math.sqrt(dot(v, v)) || 1;
+  return v.map((val) => val / norm);
+}
+
+// Compute the top 3 principal components with seeded power iteration.
+// Works on the centered data directly (X^T X v) so the dim x dim covariance
+// matrix is never materialized.
+export function computeProjectionBasis(
+  embeddings: number[][],
+  seed: number = 42
+): ProjectionBasis {
+  const n = embeddings.length;
+  const dim = embeddings[0]?.length || 0;
+  const random = seededRandom(seed);
+
+  const mean = new Array(dim).fill(0);
+  embeddings.forEach((emb) => emb.forEach((val, i) => (mean[i] += val / n)));
+  const centered = embeddings.map((emb) => emb.map((val, i) => val - mean[i]));
+
+  const components: number[][] = [];
+  const eigenvalues: number[] = [];
+
+  for (let c = 0; c < 3; c++) {
+    let v = normalize(Array.from({ length: dim }, () => random() - 0.5));
+    let eigenvalue = 0;
+
+    for (let iter = 0; iter < PCA_ITERATIONS; iter++) {
+      // w = C v, with C = X^T X / n
+      const w = new Array(dim).fill(0);
+      centered.forEach((row) => {
+        const proj = dot(row, v);
+        for (let i = 0; i < dim; i++) w[i] += (row[i] * proj) / n;
+      });
+
+      // Deflate components already found
+      components.forEach((comp, j) => {
+        const overlap = dot(comp, v) * eigenvalues[j];
+        for (let i = 0; i < dim; i++) w[i] -= comp[i] * overlap;
+      });
+
+      eigenvalue = dot(w, v);
+      const next = normalize(w);
+      const converged = Math.abs(Math.abs(dot(next, v)) - 1) < 1e-9;
+      v = next;
+      if (converged) break;
+    }
+
+    // Fix the sign so the largest coordinate is positive
+    const pivot = v.reduce((best, val, i) => (Math.abs(val) > Math.abs(v[best]) ? i : best), 0);
+    if (v[pivot] < 0) v = v.map((val) => -val);
 
-  const dim = embeddings[0].length;
+    components.push(v);
+    eigenvalues.push(Math.max(eigenvalue, 0));
+  }
 
-  // Use random projection for simplicity (proper PCA would be better but more complex)
-  const projection = [
-    Array.from({ length: dim }, () => (Math.random() - 0.5) * 2),
-    Array.from({ length: dim }, () => (Math.random() - 0.5) * 2),
-    Array.from({ length: dim }, () => (Math.random() - 0.5) * 2),
-  ];
+  const scale = eigenvalues[0] > 0 ? LAYOUT_RADIUS / Math.sqrt(eigenvalues[0]) : LAYOUT_RADIUS;
+
+  return { mean, components, scale };
+}
 
+// Project embeddings into 3D with a shared basis, so posts and topic
+// centroids land in the same space across calls
+export function embedTo3D(
+  embeddings: number[][],
+  basis: ProjectionBasis
+): { x: number; y: number; z: number }[] {
   return embeddings.map((emb) => {
-    const x = emb.reduce((sum, val, i) => sum + val * projection[0][i], 0);
-    const y = emb.reduce((sum, val, i) => sum + val * projection[1][i], 0);
-    const z = emb.reduce((sum, val, i) => sum + val * projection[2][i], 0);
-
-    // Normalize to reasonable range
-    return {
-      x: x * 50,
-      y: y * 50,
-      z: z * 50,
-    };
+    const centered = emb.map((val, i) => val - (basis.mean[i] ?? 0));
+    const [x, y, z] = basis.components.map((comp) => dot(centered, comp) * basis.scale);
+    return { x, y, z };
+  });
+}
+
+// Binary layout of a CompactGraph: a uint32 header length, the JSON header
+// (lookup tables, ids and labels), zero padding to a 4-byte boundary, then
+// the numeric columns as little-endian typed arrays.
+export function encodeCompactGraph(graph: CompactGraph): ArrayBuffer {
+  const header = new TextEncoder().encode(
+    JSON.stringify({
+      topics: graph.topics,
+      submolts: graph.submolts,
+      colors: graph.colors,
+      ids: graph.ids,
+      labels: graph.labels,
+      linkCount: graph.links.post.length,
+    })
+  );
+  const headerEnd = Math.ceil((4 + header.length) / 4) * 4;
+  const n = graph.ids.length;
+  const m = graph.links.post.length;
+
+  const buffer = new ArrayBuffer(headerEnd + 4 * (n * 9 + m * 3));
+  const view = new DataView(buffer);
+  view.setUint32(0, header.length, true);
+  new Uint8Array(buffer, 4, header.length).set(header);
+
+  let offset = headerEnd;
+  const write = (
+    values: number[],
+    Type: Float32ArrayConstructor | Int32ArrayConstructor | Uint32ArrayConstructor
+  ) => {
+    new Type(buffer, offset, values.length).set(values);
+    offset += values.length * 4;
+  };
+  write(graph.positions, Float32Array);
+  write(graph.sizes, Float32Array);
+  write(graph.colorIndex, Int32Array);
+  write(graph.topicIndex, Int32Array);
+  write(graph.submoltIndex, Int32Array);
+  write(graph.times, Uint32Array);
+  write(graph.duplicates, Uint32Array);
+  write(graph.links.post, Int32Array);
+  write(graph.links.topic, Int32Array);
+  write(graph.links.strength, Float32Array);
+
+  return buffer;
+}
+
+export function decodeCompactGraph(buffer: ArrayBuffer): CompactGraph {
+  const headerLength = new DataView(buffer).getUint32(0, true);
+  const header = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 4, headerLength)));
+  const n = header.ids.length;
+  const m = header.linkCount;
+
+  let offset = Math.ceil((4 + headerLength) / 4) * 4;
+  const read = (
+    length: number,
+    Type: Float32ArrayConstructor | Int32ArrayConstructor | Uint32ArrayConstructor
+  ) => {
+    const values = Array.from(new Type(buffer, offset, length));
+    offset += length * 4;
+    return values;
+  };
+
+  return {
+    topics: header.topics,
+    submolts: header.submolts,
+    colors: header.colors,
+    ids: header.ids,
+    labels: header.labels,
+    positions: read(n * 3, Float32Array),
+    sizes: read(n, Float32Array),
+    colorIndex: read(n, Int32Array),
+    topicIndex: read(n, Int32Array),
+    submoltIndex: read(n, Int32Array),
+    times: read(n, Uint32Array),
+    duplicates: read(n, Uint32Array),
+    links: {
+      post: read(m, Int32Array),
+      topic: read(m, Int32Array),
+      strength: read(m, Float32Array),
+    },
+  };
+}
+
+// Expand a compact graph into body-less posts for buildGraphData. The detail
+// panel loads each post's content on demand.
+export function compactGraphPosts(graph: CompactGraph): Post[] {
+  const posts: Post[] = graph.ids.map((id, i) => ({
+    id,
+    content: "",
+    title: graph.labels[i],
+    createdAt: new Date(graph.times[i] * 1000).toISOString(),
+    posX: graph.positions[i * 3],
+    posY: graph.positions[i * 3 + 1],
+    posZ: graph.positions[i * 3 + 2],
+    submolt: graph.submoltIndex[i] >= 0 ? graph.submolts[graph.submoltIndex[i]] : null,
+    topics: [],
+    duplicateCount: graph.duplicates[i],
+  }));
+
+  // Links arrive strongest first, so topics[0] stays the primary topic
+  graph.links.post.forEach((postIdx, i) => {
+    const topic = graph.topics[graph.links.topic[i]];
+    posts[postIdx].topics!.push({ ...topic, relevance: graph.links.strength[i] });
   });
+
+  return posts;
 }
@@ -0,0 +1,374 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/db";
+import {
+  kMeansClustering,
+  embedTo3D,
+  cosineSimilarity,
+  findNearestCentroid,
+} from "@/lib/clustering";
+import {
+  parseVector,
+  labelCluster,
+  createTopicFromCluster,
+  loadTopicCentroids,
+} from "@/lib/topics";
+import { loadProjectionBasis } from "@/lib/projection";
+import { assignToSubtopics } from "@/lib/hierarchy";
+import { TopicEdit } from "@/types";
+
+type DbClient = Prisma.TransactionClient;
+
+export const MAX_SPLIT_PARTS = 8;
+const MANUAL_RELEVANCE = 1.0; // Posts moved by hand belong to their new topic outright
+const EDIT_TIMEOUT = 60 * 1000; // ms allowed for a merge, split or move transaction
+
+export interface TopicChanges {
+  name?: string;
+  description?: string;
+  color?: string;
+  locked?: boolean;
+}
+
+// Record a manual edit in the audit log
+async function logTopicEdit(
+  topicId: string,
+  action: TopicEdit["action"],
+  details: Prisma.InputJsonObject,
+  db: DbClient
+): Promise<void> {
+  await db.topicEdit.create({ data: { topicId, action, details } });
+}
+
+// Most recent edits first, optionally of one topic
+export async function listTopicEdits(
+  topicId: string | null,
+  limit: number = 50
+): Promise<TopicEdit[]> {
+  const edits = await prisma.topicEdit.findMany({
+    where: topicId ? { topicId } : undefined,
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+  return edits.map((edit) => ({
+    id: edit.id,
+    topicId: edit.topicId,
+    action: edit.action as TopicEdit["action"],
+    details: edit.details as Record<string, unknown>,
+    createdAt: edit.createdAt.toISOString(),
+  }));
+}
+
+// A topic's primary posts: those linking to it more strongly than to any
+// of its siblings
+function primaryPosts(topicId: string): Prisma.Sql {
+  return Prisma.sql`
+    SELECT pt.post_id
+    FROM post_topics pt
+    JOIN topics t ON t.id = pt.topic_id
+    WHERE pt.topic_id = ${topicId}
+      AND NOT EXISTS (
+        SELECT 1 FROM post_topics o
+        JOIN topics ot ON ot.id = o.topic_id
+        WHERE o.post_id = pt.post_id
+          AND ot.parent_id IS NOT DISTINCT FROM t.parent_id
+          AND o.relevance > pt.relevance
+      )
+  `;
+}
+
+// Recompute a topic's cached post count, centroid and map position from
+// its primary posts
+export async function refreshTopic(topicId: string, db: DbClient = prisma): Promise<void> {
+  await db.$executeRaw`
+    WITH members AS (${primaryPosts(topicId)})
+    UPDATE topics
+    SET post_count = (SELECT COUNT(*) FROM members),
+        centroid_embedding = coalesce(
+          (SELECT AVG(p.embedding) FROM posts p JOIN members m ON m.post_id = p.id),
+          centroid_embedding
+        )
+    WHERE id = ${topicId}
+  `;
+
+  const [row] = await db.$queryRaw<Array<{ centroid: string | null }>>`
+    SELECT centroid_embedding::text AS centroid FROM topics WHERE id = ${topicId}
+  `;
+  const basis = await loadProjectionBasis(db);
+  if (!row?.centroid || !basis) return;
+
+  const [position] = embedTo3D([parseVector(row.centroid)], basis);
+  await db.topic.update({
+    where: { id: topicId },
+    data: { posX: position.x, posY: position.y, posZ: position.z },
+  });
+}
+
+// Rename, describe, recolor or (un)lock a topic
+export async function updateTopic(topicId: string, changes: TopicChanges): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const before = await tx.topic.findUniqueOrThrow({ where: { id: topicId } });
+
+    const diff: Record<string, { from: string | boolean | null; to: string | boolean }> = {};
+    (["name", "description", "color", "locked"] as const).forEach((field) => {
+      const value = changes[field];
+      if (value !== undefined && value !== before[field]) {
+        diff[field] = { from: before[field], to: value };
+      }
+    });
+    if (Object.keys(diff).length === 0) return;
+
+    await tx.topic.update({ where: { id: topicId }, data: changes });
+    await logTopicEdit(topicId, "update", diff, tx);
+  });
+}
+
+// Fold one topic into another: its post links (keeping the stronger
+// relevance where a post links to both) and its subtopics move over, then
+// the source topic is removed
+export async function mergeTopics(sourceId: string, targetId: string): Promise<void> {
+  await prisma.$transaction(
+    async (tx) => {
+      const [source, target] = await Promise.all([
+        tx.topic.findUniqueOrThrow({ where: { id: sourceId } }),
+        tx.topic.findUniqueOrThrow({ where: { id: targetId } }),
+      ]);
+
+      await tx.$executeRaw`
+        UPDATE post_topics t
+        SET relevance = GREATEST(t.relevance, s.relevance)
+        FROM post_topics s
+        WHERE t.topic_id = ${targetId}
+          AND s.topic_id = ${sourceId}
+          AND s.post_id = t.post_id
+      `;
+      await tx.$executeRaw`
+        UPDATE post_topics s
+        SET topic_id = ${targetId}
+        WHERE s.topic_id = ${sourceId}
+          AND NOT EXISTS (
+            SELECT 1 FROM post_topics t WHERE t.topic_id = ${targetId} AND t.post_id = s.post_id
+          )
+      `;
+      await tx.topic.updateMany({ where: { parentId: sourceId }, data: { parentId: targetId } });
+      await tx.topic.delete({ where: { id: sourceId } });
+
+      await refreshTopic(targetId, tx);
+      await logTopicEdit(
+        targetId,
+        "merge",
+        {
+          from: { id: source.id, name: source.name, postCount: source.postCount },
+          into: { id: target.id, name: target.name, postCount: target.postCount },
+        },
+        tx
+      );
+    },
+    { timeout: EDIT_TIMEOUT }
+  );
+}
+
+// Split a topic into k parts by k-means over its primary posts. The largest
+// part keeps the topic (id, label, color and lock); the others become new
+// sibling topics labeled by the AI provider. Secondary links and subtopics
+// go to the nearest part. Returns the ids of all parts, or an empty list
+// when the posts do not separate.
+export async function splitTopic(topicId: string, k: number): Promise<string[]> {
+  const topic = await prisma.topic.findUniqueOrThrow({ where: { id: topicId } });
+  const rows = await prisma.$queryRaw<
+    Array<{ post_id: string; embedding: string; relevance: number; is_primary: boolean }>
+  >`
+    WITH members AS (${primaryPosts(topicId)})
+    SELECT pt.post_id, p.embedding::text AS embedding, pt.relevance,
+           pt.post_id IN (SELECT post_id FROM members) AS is_primary
+    FROM post_topics pt
+    JOIN posts p ON p.id = pt.post_id
+    WHERE pt.topic_id = ${topicId}
+      AND p.embedding IS NOT NULL
+  `;
+
+  const primary = rows.filter((r) => r.is_primary);
+  const secondary = rows.filter((r) => !r.is_primary);
+  const embeddings = primary.map((r) => parseVector(r.embedding));
+  const { clusters, centroids } = kMeansClustering(embeddings, k);
+
+  const members: Map<number, number[]> = new Map();
+  clusters.forEach((clusterIdx, i) => {
+    if (!members.has(clusterIdx)) members.set(clusterIdx, []);
+    members.get(clusterIdx)!.push(i);
+  });
+  if (members.size < 2) return [];
+
+  const parts = [...members.entries()]
+    .map(([clusterIdx, indices]) => ({
+      centroid: centroids[clusterIdx],
+      postIds: indices.map((i) => primary[i].post_id),
+      relevances: indices.map((i) => cosineSimilarity(embeddings[i], centroids[clusterIdx])),
+    }))
+    .sort((a, b) => b.postIds.length - a.postIds.length);
+
+  // Label the new parts before the transaction; labeling calls the AI provider
+  const labels: Array<{ name: string; description: string }> = [];
+  for (const part of parts.slice(1)) {
+    labels.push(await labelCluster(part.postIds));
+  }
+  const basis = await loadProjectionBasis();
+
+  return prisma.$transaction(
+    async (tx) => {
+      const children = await loadTopicCentroids(topicId, tx);
+      const topicCount = await tx.topic.count();
+
+      await tx.postTopic.deleteMany({ where: { topicId } });
+      await tx.postTopic.createMany({
+        data: parts[0].postIds.map((postId, i) => ({
+          postId,
+          topicId,
+          relevance: parts[0].relevances[i],
+        })),
+      });
+
+      const partIds = [topicId];
+      for (const [i, part] of parts.slice(1).entries()) {
+        partIds.push(
+          await createTopicFromCluster(
+            {
+              postIds: part.postIds,
+              centroid: part.centroid,
+              colorIndex: topicCount + i,
+              position: basis ? embedTo3D([part.centroid], basis)[0] : undefined,
+              label: labels[i],
+              relevances: part.relevances,
+              parentId: topic.parentId ?? undefined,
+            },
+            tx
+          )
+        );
+      }
+
+      const partCentroids = parts.map((part) => part.centroid);
+      await tx.postTopic.createMany({
+        data: secondary.map((r) => ({
+          postId: r.post_id,
+          topicId: partIds[findNearestCentroid(parseVector(r.embedding), partCentroids).index],
+          relevance: r.relevance,
+        })),
+        skipDuplicates: true,
+      });
+      for (const child of children) {
+        await tx.topic.update({
+          where: { id: child.id },
+          data: { parentId: partIds[findNearestCentroid(child.centroid, partCentroids).index] },
+        });
+      }
+
+      for (const id of partIds) {
+        await refreshTopic(id, tx);
+      }
+      await logTopicEdit(
+        topicId,
+        "split",
+        {
+          name: topic.name,
+          into: partIds.map((id, i) => ({
+            id,
+            name: i === 0 ? topic.name : labels[i - 1].name,
+            postCount: parts[i].postIds.length,
+          })),
+        },
+        tx
+      );
+
+      return partIds;
+    },
+    { timeout: EDIT_TIMEOUT }
+  );
+}
+
+// Move posts from one topic (and its subtopics) to a sibling topic, where
+// they also join the nearest subtopic. Links above the two topics are left
+// alone, which is why they must share a parent. Returns how many posts moved.
+export async function movePosts(
+  postIds: string[],
+  fromId: string,
+  toId: string
+): Promise<number> {
+  return prisma.$transaction(
+    async (tx) => {
+      const [from, to] = await Promise.all([
+        tx.topic.findUniqueOrThrow({ where: { id: fromId } }),
+        tx.topic.findUniqueOrThrow({ where: { id: toId } }),
+      ]);
+
+      const rows = await tx.$queryRaw<Array<{ id: string; embedding: string }>>`
+        SELECT p.id, p.embedding::text AS embedding
+        FROM posts p
+        JOIN post_topics pt ON pt.post_id = p.id AND pt.topic_id = ${fromId}
+        WHERE p.id = ANY(${postIds})
+          AND p.embedding IS NOT NULL
+      `;
+      if (rows.length === 0) return 0;
+      const movedIds = rows.map((r) => r.id);
+
+      await tx.$executeRaw`
+        WITH RECURSIVE subtree AS (
+          SELECT id FROM topics WHERE id = ${fromId}
+          UNION ALL
+          SELECT t.id FROM topics t JOIN subtree s ON t.parent_id = s.id
+        )
+        DELETE FROM post_topics
+        WHERE post_id = ANY(${movedIds})
+          AND topic_id IN (SELECT id FROM subtree)
+      `;
+      await tx.postTopic.deleteMany({ where: { topicId: toId, postId: { in: movedIds } } });
+      await tx.postTopic.createMany({
+        data: movedIds.map((postId) => ({ postId, topicId: toId, relevance: MANUAL_RELEVANCE })),
+      });
+      await assignToSubtopics(
+        toId,
+        movedIds,
+        rows.map((r) => parseVector(r.embedding)),
+        tx
+      );
+
+      await refreshTopic(fromId, tx);
+      await refreshTopic(toId, tx);
+      await logTopicEdit(
+        fromId,
+        "move",
+        { postIds: movedIds, from: { id: from.id, name: from.name }, to: { id: to.id, name: to.name } },
+        tx
+      );
+
+      return movedIds.length;
+    },
+    { timeout: EDIT_TIMEOUT }
+  );
+}
+
+// Locked top-level topics with all their subtopics, and the posts whose
+// strongest top-level topic is locked. Re-clusters keep these as they are.
+export async function loadLockedTopics(
+  db: DbClient = prisma
+): Promise<{ topicIds: string[]; postIds: string[] }> {
+  const [topics, posts] = await Promise.all([
+    db.$queryRaw<Array<{ id: string }>>`
+      WITH RECURSIVE subtree AS (
+        SELECT id FROM topics WHERE parent_id IS NULL AND locked
+        UNION ALL
+        SELECT t.id FROM topics t JOIN subtree s ON t.parent_id = s.id
+      )
+      SELECT id FROM subtree
+    `,
+    db.$queryRaw<Array<{ post_id: string }>>`
+      SELECT post_id
+      FROM (
+        SELECT DISTINCT ON (pt.post_id) pt.post_id, t.locked
+        FROM post_topics pt
+        JOIN topics t ON t.id = pt.topic_id AND t.parent_id IS NULL
+        ORDER BY pt.post_id, pt.relevance DESC
+      ) primary_topics
+      WHERE locked
+    `,
+  ]);
+  return { topicIds: topics.map((t) => t.id), postIds: posts.map((p) => p.post_id) };
+}
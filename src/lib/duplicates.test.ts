@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from "vitest";
+import { contentHash, minhashSignature, estimateJaccard } from "@/lib/duplicates";
+
+vi.mock("@/lib/db", () => ({ default: {} }));
+
+describe("contentHash", () => {
+  it("ignores case, punctuation and spacing", () => {
+    expect(contentHash("Hello,   World!")).toBe(contentHash("hello world"));
+  });
+
+  it("differs for different words", () => {
+    expect(contentHash("hello world")).not.toBe(contentHash("hello there"));
+  });
+});
+
+describe("minhashSignature", () => {
+  const text = "the quick brown fox jumps over the lazy dog near the river bank";
+
+  it("is empty for text without words", () => {
+    expect(minhashSignature("")).toEqual([]);
+    expect(minhashSignature("🦞 !!! ...")).toEqual([]);
+  });
+
+  it("is stable, 64 signed 32-bit slots", () => {
+    const signature = minhashSignature(text);
+    expect(signature).toHaveLength(64);
+    expect(signature).toEqual(minhashSignature(text));
+    signature.forEach((h) => expect(h).toBe(h | 0));
+  });
+
+  it("signs short text as a single shingle", () => {
+    expect(minhashSignature("hi there")).toHaveLength(64);
+  });
+
+  it("estimates overlap between similar texts", () => {
+    const signature = minhashSignature(text);
+    expect(estimateJaccard(signature, minhashSignature(text.toUpperCase()))).toBe(1);
+    expect(estimateJaccard(signature, minhashSignature(`${text} today`))).toBeGreaterThan(0.6);
+    expect(
+      estimateJaccard(signature, minhashSignature("an entirely unrelated post about agent memory"))
+    ).toBeLessThan(0.2);
+  });
+});
+
+describe("estimateJaccard", () => {
+  it("is 0 for missing or mismatched signatures", () => {
+    expect(estimateJaccard([1, 2], null)).toBe(0);
+    expect(estimateJaccard([], [])).toBe(0);
+    expect(estimateJaccard([1, 2], [1, 2, 3])).toBe(0);
+  });
+
+  it("is the share of matching slots", () => {
+    expect(estimateJaccard([1, 2, 3, 4], [1, 2, 0, 0])).toBe(0.5);
+  });
+});
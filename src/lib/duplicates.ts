@@ -0,0 +1,215 @@
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/db";
+import { parseVector } from "@/lib/topics";
+import { refreshTopic } from "@/lib/curation";
+
+type DbClient = Prisma.TransactionClient;
+
+export const DUPLICATE_SIMILARITY = parseFloat(process.env.DUPLICATE_SIMILARITY || "0.95"); // Min embedding similarity for a near-duplicate
+export const DUPLICATE_JACCARD = parseFloat(process.env.DUPLICATE_JACCARD || "0.8"); // Min estimated word-shingle overlap
+const DUPLICATE_CANDIDATES = 5; // Nearest canonical posts checked per post
+const MINHASH_SIZE = 64; // Hash functions per signature
+const SHINGLE_SIZE = 3; // Words per shingle
+const BACKFILL_BATCH = 500; // Posts per backfill query
+
+// Fixed seeds, so signatures stored by earlier runs stay comparable
+const MINHASH_SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => Math.imul(i + 1, 0x9e3779b1));
+
+// Lowercased words, so case, punctuation and spacing changes don't matter
+function normalizeWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// 32-bit FNV-1a
+function hashString(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h;
+}
+
+// Seeded murmur3 finalizer, as a signed 32-bit int (fits a Postgres int4)
+function mixHash(h: number, seed: number): number {
+  h ^= seed;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h | 0;
+}
+
+// Hash of the normalized text; equal for exact reposts
+export function contentHash(text: string): string {
+  return createHash("sha256").update(normalizeWords(text).join(" ")).digest("hex");
+}
+
+// MinHash signature of the text's word shingles (empty for empty text)
+export function minhashSignature(text: string): number[] {
+  const words = normalizeWords(text);
+  if (words.length === 0) return [];
+
+  const shingles = new Set<number>();
+  for (let i = 0; i <= Math.max(0, words.length - SHINGLE_SIZE); i++) {
+    shingles.add(hashString(words.slice(i, i + SHINGLE_SIZE).join(" ")));
+  }
+
+  return MINHASH_SEEDS.map((seed) => {
+    let min = Infinity;
+    shingles.forEach((h) => {
+      min = Math.min(min, mixHash(h, seed));
+    });
+    return min;
+  });
+}
+
+// Share of matching signature slots, an estimate of shingle Jaccard similarity.
+// Posts saved before signatures were stored may have none.
+export function estimateJaccard(a: number[], b: number[] | null): number {
+  if (!b || a.length === 0 || a.length !== b.length) return 0;
+  let same = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / a.length;
+}
+
+// Find the canonical post a stored post duplicates: one with the same
+// content hash, or a close embedding neighbor whose MinHash signature
+// overlaps enough. Only canonical posts are candidates, so groups stay flat.
+// Text without words (emoji or symbols only) has an empty signature and
+// would share its hash with every such post, so it is never matched. With
+// createdBefore, only older posts are candidates.
+export async function findCanonicalPost(
+  postId: string,
+  hash: string,
+  signature: number[],
+  embedding: number[],
+  db: DbClient = prisma,
+  createdBefore?: Date
+): Promise<string | null> {
+  if (signature.length === 0) return null;
+
+  const exact = await db.post.findFirst({
+    where: {
+      contentHash: hash,
+      canonicalId: null,
+      id: { not: postId },
+      ...(createdBefore ? { createdAt: { lt: createdBefore } } : {}),
+    },
+    orderBy: { createdAt: "asc" },
+    select: { id: true },
+  });
+  if (exact) return exact.id;
+
+  const embeddingStr = `[${embedding.join(",")}]`;
+  const candidates = await db.$queryRaw<Array<{ id: string; minhash: number[] | null }>>`
+    SELECT id, minhash
+    FROM posts
+    WHERE canonical_id IS NULL
+      AND id <> ${postId}
+      AND embedding IS NOT NULL
+      ${createdBefore ? Prisma.sql`AND created_at < ${createdBefore}` : Prisma.empty}
+      AND 1 - (embedding <=> ${embeddingStr}::vector) >= ${DUPLICATE_SIMILARITY}
+    ORDER BY embedding <=> ${embeddingStr}::vector
+    LIMIT ${DUPLICATE_CANDIDATES}
+  `;
+  const match = candidates.find((c) => estimateJaccard(signature, c.minhash) >= DUPLICATE_JACCARD);
+  return match?.id ?? null;
+}
+
+// Collapse a post into its canonical post's group
+export async function markDuplicate(
+  postId: string,
+  canonicalId: string,
+  db: DbClient = prisma
+): Promise<void> {
+  await db.post.update({ where: { id: postId }, data: { canonicalId } });
+  await db.post.update({
+    where: { id: canonicalId },
+    data: { duplicateCount: { increment: 1 } },
+  });
+}
+
+// Duplicates sit at their canonical post's position
+export async function syncDuplicatePositions(db: DbClient = prisma): Promise<void> {
+  await db.$executeRaw`
+    UPDATE posts d
+    SET pos_x = c.pos_x, pos_y = c.pos_y, pos_z = c.pos_z
+    FROM posts c
+    WHERE d.canonical_id = c.id
+  `;
+}
+
+// Hash and sign posts stored before duplicate detection, then collapse the
+// reposts among them, oldest first so the first copy stays canonical.
+// Collapsed posts leave their topics. Returns how many posts were signed.
+export async function backfillSignatures(): Promise<number> {
+  const signedIds: string[] = [];
+  while (true) {
+    const posts = await prisma.post.findMany({
+      where: { contentHash: null },
+      select: { id: true, title: true, content: true },
+      orderBy: { createdAt: "asc" },
+      take: BACKFILL_BATCH,
+    });
+    if (posts.length === 0) break;
+
+    for (const post of posts) {
+      const text = post.title ? `${post.title}\n${post.content}` : post.content;
+      await prisma.post.update({
+        where: { id: post.id },
+        data: { contentHash: contentHash(text), minhash: minhashSignature(text) },
+      });
+      signedIds.push(post.id);
+    }
+  }
+  if (signedIds.length === 0) return 0;
+
+  let collapsed = 0;
+  const touchedTopics = new Set<string>();
+  for (let i = 0; i < signedIds.length; i += BACKFILL_BATCH) {
+    const rows = await prisma.$queryRaw<
+      Array<{ id: string; content_hash: string; minhash: number[]; embedding: string; created_at: Date }>
+    >`
+      SELECT id, content_hash, minhash, embedding::text AS embedding, created_at
+      FROM posts
+      WHERE id = ANY(${signedIds.slice(i, i + BACKFILL_BATCH)})
+        AND embedding IS NOT NULL
+      ORDER BY created_at
+    `;
+
+    for (const row of rows) {
+      const canonicalId = await findCanonicalPost(
+        row.id,
+        row.content_hash,
+        row.minhash,
+        parseVector(row.embedding),
+        prisma,
+        row.created_at
+      );
+      if (!canonicalId) continue;
+
+      const links = await prisma.postTopic.findMany({
+        where: { postId: row.id },
+        select: { topicId: true },
+      });
+      links.forEach((link) => touchedTopics.add(link.topicId));
+      await prisma.postTopic.deleteMany({ where: { postId: row.id } });
+      await markDuplicate(row.id, canonicalId);
+      collapsed++;
+    }
+  }
+
+  if (collapsed > 0) {
+    for (const topicId of touchedTopics) {
+      await refreshTopic(topicId);
+    }
+    await syncDuplicatePositions();
+    console.log(`🪞 Collapsed ${collapsed} stored reposts`);
+  }
+  return signedIds.length;
+}
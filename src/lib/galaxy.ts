@@ -0,0 +1,66 @@
+import prisma from "@/lib/db";
+import { GalaxyChunk, GalaxyHeader } from "@/types";
+
+export const GALAXY_CHUNK_SIZE = 5000; // Posts per streamed chunk
+const LABEL_LENGTH = 40; // Characters of title/content kept as a hover label
+
+export async function loadGalaxyHeader(): Promise<GalaxyHeader> {
+  const [topics, total] = await Promise.all([
+    prisma.topic.findMany({
+      where: { parentId: null },
+      orderBy: { postCount: "desc" },
+      select: { id: true, color: true },
+    }),
+    prisma.post.count({ where: { posX: { not: null }, canonicalId: null } }),
+  ]);
+  return { topics, total };
+}
+
+// Page through every positioned post by id, yielding columnar chunks.
+// Each post carries its position, the index of its strongest top-level
+// topic in `header.topics` (-1 if none), creation time and a short label;
+// no post bodies.
+export async function* galaxyChunks(
+  topicIndex: Map<string, number>,
+  chunkSize: number = GALAXY_CHUNK_SIZE
+): AsyncGenerator<GalaxyChunk> {
+  let after = "";
+
+  while (true) {
+    const rows = await prisma.$queryRaw<
+      Array<{
+        id: string;
+        pos_x: number;
+        pos_y: number;
+        pos_z: number;
+        topic_id: string | null;
+        label: string;
+        created_at: Date;
+      }>
+    >`
+      SELECT p.id, p.pos_x, p.pos_y, p.pos_z, p.created_at,
+             (SELECT pt.topic_id FROM post_topics pt
+              JOIN topics t ON t.id = pt.topic_id AND t.parent_id IS NULL
+              WHERE pt.post_id = p.id
+              ORDER BY pt.relevance DESC
+              LIMIT 1) AS topic_id,
+             left(coalesce(nullif(p.title, ''), p.content), ${LABEL_LENGTH}) AS label
+      FROM posts p
+      WHERE p.pos_x IS NOT NULL AND p.canonical_id IS NULL AND p.id > ${after}
+      ORDER BY p.id
+      LIMIT ${chunkSize}
+    `;
+    if (rows.length === 0) return;
+
+    yield {
+      ids: rows.map((r) => r.id),
+      positions: rows.flatMap((r) => [r.pos_x, r.pos_y, r.pos_z]),
+      topics: rows.map((r) => (r.topic_id ? topicIndex.get(r.topic_id) ?? -1 : -1)),
+      labels: rows.map((r) => r.label),
+      times: rows.map((r) => Math.floor(r.created_at.getTime() / 1000)),
+    };
+
+    if (rows.length < chunkSize) return;
+    after = rows[rows.length - 1].id;
+  }
+}
@@ -0,0 +1,111 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/db";
+import { CompactGraph } from "@/types";
+
+export const GRAPH_LIMIT = 10000; // Default posts per graph
+export const MAX_GRAPH_LIMIT = 50000;
+const LABEL_LENGTH = 40; // Characters of title/content kept as a hover label
+const POST_SIZE = 0.5;
+const NO_TOPIC_COLOR = "#94a3b8";
+
+// Positions and memberships for the posts of a topic, submolt or author (or
+// every post), without bodies. Near-duplicates are collapsed into their
+// canonical post.
+export async function loadCompactGraph(options: {
+  topicId?: string;
+  submoltId?: string;
+  authorId?: string;
+  limit?: number;
+}): Promise<CompactGraph> {
+  const conditions: Prisma.Sql[] = [];
+  if (options.topicId) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM post_topics pt WHERE pt.post_id = p.id AND pt.topic_id = ${options.topicId}
+    )`);
+  }
+  if (options.submoltId) conditions.push(Prisma.sql`p.submolt_id = ${options.submoltId}`);
+  if (options.authorId) conditions.push(Prisma.sql`p.author_id = ${options.authorId}`);
+
+  const rows = await prisma.$queryRaw<
+    Array<{
+      id: string;
+      pos_x: number;
+      pos_y: number;
+      pos_z: number;
+      submolt_id: string | null;
+      label: string;
+      created_at: Date;
+      duplicate_count: number;
+    }>
+  >`
+    SELECT p.id, p.pos_x, p.pos_y, p.pos_z, p.submolt_id, p.created_at, p.duplicate_count,
+           left(coalesce(nullif(p.title, ''), p.content), ${LABEL_LENGTH}) AS label
+    FROM posts p
+    WHERE p.pos_x IS NOT NULL
+      AND p.canonical_id IS NULL
+      ${conditions.length > 0 ? Prisma.sql`AND ${Prisma.join(conditions, " AND ")}` : Prisma.empty}
+    ORDER BY p.created_at DESC
+    LIMIT ${options.limit ?? GRAPH_LIMIT}
+  `;
+
+  const ids = rows.map((r) => r.id);
+  // One array parameter, so large graphs stay under the bind parameter limit
+  const memberships = await prisma.$queryRaw<
+    Array<{ post_id: string; topic_id: string; relevance: number; top_level: boolean }>
+  >`
+    SELECT pt.post_id, pt.topic_id, pt.relevance, t.parent_id IS NULL AS top_level
+    FROM post_topics pt
+    JOIN topics t ON t.id = pt.topic_id
+    WHERE pt.post_id = ANY(${ids})
+    ORDER BY pt.relevance DESC
+  `;
+
+  const topicIds = [...new Set(memberships.map((m) => m.topic_id))];
+  const submoltIds = [...new Set(rows.flatMap((r) => (r.submolt_id ? [r.submolt_id] : [])))];
+  const [topics, submolts] = await Promise.all([
+    prisma.topic.findMany({
+      where: { id: { in: topicIds } },
+      select: { id: true, name: true, color: true },
+    }),
+    prisma.submolt.findMany({
+      where: { id: { in: submoltIds } },
+      select: { id: true, name: true, displayName: true },
+    }),
+  ]);
+
+  const postIndex = new Map(ids.map((id, i) => [id, i]));
+  const topicIndex = new Map(topics.map((t, i) => [t.id, i]));
+  const submoltIndex = new Map(submolts.map((s, i) => [s.id, i]));
+
+  // Memberships are sorted by relevance, so the first top-level one seen is
+  // the primary topic, as in the galaxy, timeline and trends
+  const primary = new Array(rows.length).fill(-1);
+  const links: CompactGraph["links"] = { post: [], topic: [], strength: [] };
+  memberships.forEach((m) => {
+    const post = postIndex.get(m.post_id)!;
+    const topic = topicIndex.get(m.topic_id)!;
+    if (primary[post] === -1 && m.top_level) primary[post] = topic;
+    links.post.push(post);
+    links.topic.push(topic);
+    links.strength.push(m.relevance);
+  });
+
+  // Topic colors, then a fallback for posts without a topic
+  const colors = [...topics.map((t) => t.color), NO_TOPIC_COLOR];
+
+  return {
+    topics,
+    submolts,
+    colors,
+    ids,
+    labels: rows.map((r) => r.label),
+    positions: rows.flatMap((r) => [r.pos_x, r.pos_y, r.pos_z]),
+    sizes: rows.map(() => POST_SIZE),
+    colorIndex: primary.map((t) => (t === -1 ? colors.length - 1 : t)),
+    topicIndex: primary,
+    submoltIndex: rows.map((r) => (r.submolt_id ? submoltIndex.get(r.submolt_id)! : -1)),
+    times: rows.map((r) => Math.floor(r.created_at.getTime() / 1000)),
+    duplicates: rows.map((r) => r.duplicate_count),
+    links,
+  };
+}
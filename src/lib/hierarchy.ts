@@ -0,0 +1,125 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/db";
+import {
+  kMeansClustering,
+  embedTo3D,
+  cosineSimilarity,
+  findNearestCentroid,
+  suggestClusterCount,
+  ProjectionBasis,
+} from "@/lib/clustering";
+import {
+  labelCluster,
+  createTopicFromCluster,
+  addPostsToTopic,
+  loadTopicCentroids,
+} from "@/lib/topics";
+
+type DbClient = Prisma.TransactionClient;
+
+export const SUBTOPIC_MIN_POSTS = parseInt(process.env.SUBTOPIC_MIN_POSTS || "100"); // Topics at least this big get subtopics
+export const MAX_TOPIC_DEPTH = parseInt(process.env.MAX_TOPIC_DEPTH || "2"); // Levels of subtopics under a topic
+const MAX_SUBTOPICS = 8; // Per topic
+
+// A labeled subtopic (and its own subtopics), planned before anything is stored
+export interface SubtopicPlan {
+  postIds: string[];
+  centroid: number[];
+  relevances: number[]; // Post-to-centroid similarity, per post
+  label: { name: string; description: string };
+  children: SubtopicPlan[];
+}
+
+// Recursively re-cluster a large topic's posts into labeled subtopics,
+// largest first. Labeling calls the AI provider, so plan outside of any
+// transaction and store the result with saveSubtopics.
+export async function planSubtopics(
+  postIds: string[],
+  embeddings: number[][],
+  depth: number = 1
+): Promise<SubtopicPlan[]> {
+  if (depth > MAX_TOPIC_DEPTH || postIds.length < SUBTOPIC_MIN_POSTS) return [];
+
+  const k = Math.min(suggestClusterCount(postIds.length), MAX_SUBTOPICS);
+  const { clusters, centroids } = kMeansClustering(embeddings, k);
+
+  const members: Map<number, number[]> = new Map();
+  clusters.forEach((clusterIdx, i) => {
+    if (!members.has(clusterIdx)) members.set(clusterIdx, []);
+    members.get(clusterIdx)!.push(i);
+  });
+  // Everything landed in one cluster: nothing to split
+  if (members.size < 2) return [];
+
+  const plans: SubtopicPlan[] = [];
+  for (const [clusterIdx, indices] of members) {
+    const subPostIds = indices.map((i) => postIds[i]);
+    const subEmbeddings = indices.map((i) => embeddings[i]);
+    plans.push({
+      postIds: subPostIds,
+      centroid: centroids[clusterIdx],
+      relevances: subEmbeddings.map((emb) => cosineSimilarity(emb, centroids[clusterIdx])),
+      label: await labelCluster(subPostIds),
+      children: await planSubtopics(subPostIds, subEmbeddings, depth + 1),
+    });
+  }
+
+  return plans.sort((a, b) => b.postIds.length - a.postIds.length);
+}
+
+// Store planned subtopics under a topic, recursively
+export async function saveSubtopics(
+  parentId: string,
+  plans: SubtopicPlan[],
+  basis: ProjectionBasis,
+  db: DbClient = prisma
+): Promise<void> {
+  for (const [i, plan] of plans.entries()) {
+    const id = await createTopicFromCluster(
+      {
+        postIds: plan.postIds,
+        centroid: plan.centroid,
+        colorIndex: i,
+        position: embedTo3D([plan.centroid], basis)[0],
+        label: plan.label,
+        relevances: plan.relevances,
+        parentId,
+      },
+      db
+    );
+    await saveSubtopics(id, plan.children, basis, db);
+  }
+}
+
+// Posts that just joined a topic also join its nearest subtopic, all the
+// way down
+export async function assignToSubtopics(
+  parentId: string,
+  postIds: string[],
+  embeddings: number[][],
+  db: DbClient = prisma
+): Promise<void> {
+  const children = await loadTopicCentroids(parentId, db);
+  if (children.length === 0) return;
+
+  const groups: Map<number, number[]> = new Map();
+  embeddings.forEach((emb, i) => {
+    const nearest = findNearestCentroid(emb, children.map((c) => c.centroid));
+    if (!groups.has(nearest.index)) groups.set(nearest.index, []);
+    groups.get(nearest.index)!.push(i);
+  });
+
+  for (const [childIdx, indices] of groups) {
+    const child = children[childIdx];
+    const childPostIds = indices.map((i) => postIds[i]);
+    const childEmbeddings = indices.map((i) => embeddings[i]);
+    await addPostsToTopic(
+      child,
+      childPostIds,
+      childEmbeddings,
+      childEmbeddings.map((emb) => cosineSimilarity(emb, child.centroid)),
+      db
+    );
+    await assignToSubtopics(child.id, childPostIds, childEmbeddings, db);
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from "vitest";
+import { TopicSnapshot } from "@prisma/client";
+import { diffTopicRuns } from "@/lib/history";
+
+const runs = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock("@/lib/db", () => ({
+  default: {
+    topicRun: { findUnique: async ({ where }: { where: { id: string } }) => runs.get(where.id) ?? null },
+  },
+}));
+
+const snapshot = (topicId: string, name: string, centroid: number[]): TopicSnapshot => ({
+  id: `${topicId}-${name}`,
+  runId: "",
+  topicId,
+  name,
+  description: null,
+  color: "#ef4444",
+  postCount: 10,
+  centroid,
+});
+
+const run = (id: string, topics: TopicSnapshot[]) => {
+  runs.set(id, { id, type: "recluster", topicCount: topics.length, createdAt: new Date(0), topics });
+};
+
+describe("diffTopicRuns", () => {
+  it("returns null for an unknown run", async () => {
+    run("r1", []);
+    expect(await diffTopicRuns("r1", "missing")).toBeNull();
+  });
+
+  it("finds births, deaths, merges, splits and renames", async () => {
+    run("from", [
+      snapshot("kept", "Agents", [1, 0, 0, 0, 0]),
+      snapshot("a", "Memes", [0, 1, 0, 0, 0]),
+      snapshot("b", "Jokes", [0, 0.95, 0.3, 0, 0]),
+      snapshot("wide", "Tools", [0, 0, 0, 1, 0]),
+      snapshot("gone", "Crypto", [0, 0, 0, 0, 1]),
+    ]);
+    run("to", [
+      snapshot("kept", "AI Agents", [1, 0, 0, 0, 0]),
+      snapshot("humor", "Humor", [0, 1, 0.1, 0, 0]),
+      snapshot("cli", "CLI tools", [0, 0, 0.3, 1, 0]),
+      snapshot("apis", "APIs", [0, 0, -0.3, 1, 0]),
+      snapshot("new", "Poetry", [-1, 0, 0, 0, 0]),
+    ]);
+
+    const diff = (await diffTopicRuns("from", "to"))!;
+
+    expect(diff.renamed).toEqual([{ topic: expect.objectContaining({ topicId: "kept" }), previousName: "Agents" }]);
+    expect(diff.merged).toHaveLength(1);
+    expect(diff.merged[0].into.topicId).toBe("humor");
+    expect(diff.merged[0].from.map((t) => t.topicId).sort()).toEqual(["a", "b"]);
+    expect(diff.split).toHaveLength(1);
+    expect(diff.split[0].from.topicId).toBe("wide");
+    expect(diff.split[0].into.map((t) => t.topicId).sort()).toEqual(["apis", "cli"]);
+    expect(diff.born.map((t) => t.topicId)).toEqual(["new"]);
+    expect(diff.died.map((t) => t.topicId)).toEqual(["gone"]);
+  });
+});
@@ -0,0 +1,191 @@
+import { Prisma, TopicSnapshot } from "@prisma/client";
+import prisma from "@/lib/db";
+import { findNearestCentroid } from "@/lib/clustering";
+import { parseVector } from "@/lib/topics";
+import { TopicRunDiff, TopicRunSummary, TopicVersion } from "@/types";
+
+type DbClient = Prisma.TransactionClient;
+
+export const TOPIC_MATCH_THRESHOLD = 0.8; // Min centroid similarity for a re-clustered topic to keep its id
+const LINEAGE_THRESHOLD = 0.7; // Min centroid similarity to count as a merge or split
+
+// Snapshot every current top-level topic as the result of a run
+export async function saveTopicRun(
+  jobId: string | null,
+  type: string,
+  db: DbClient = prisma
+): Promise<string> {
+  const topics = await db.$queryRaw<
+    Array<{
+      id: string;
+      name: string;
+      description: string | null;
+      color: string;
+      post_count: number;
+      centroid: string;
+    }>
+  >`
+    SELECT id, name, description, color, post_count, centroid_embedding::text AS centroid
+    FROM topics
+    WHERE centroid_embedding IS NOT NULL AND parent_id IS NULL
+  `;
+
+  const run = await db.topicRun.create({
+    data: {
+      jobId,
+      type,
+      topicCount: topics.length,
+      topics: {
+        createMany: {
+          data: topics.map((t) => ({
+            topicId: t.id,
+            name: t.name,
+            description: t.description,
+            color: t.color,
+            postCount: t.post_count,
+            centroid: parseVector(t.centroid),
+          })),
+        },
+      },
+    },
+  });
+  return run.id;
+}
+
+function toSummary(run: { id: string; type: string; topicCount: number; createdAt: Date }): TopicRunSummary {
+  return {
+    id: run.id,
+    type: run.type,
+    topicCount: run.topicCount,
+    createdAt: run.createdAt.toISOString(),
+  };
+}
+
+function toVersion(snapshot: TopicSnapshot): TopicVersion {
+  return {
+    topicId: snapshot.topicId,
+    name: snapshot.name,
+    color: snapshot.color,
+    postCount: snapshot.postCount,
+  };
+}
+
+// Most recent runs first
+export async function listTopicRuns(limit: number = 50): Promise<TopicRunSummary[]> {
+  const runs = await prisma.topicRun.findMany({
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+  return runs.map(toSummary);
+}
+
+// The run before this one, if any
+export async function previousTopicRun(runId: string): Promise<TopicRunSummary | null> {
+  const run = await prisma.topicRun.findUnique({ where: { id: runId } });
+  if (!run) return null;
+
+  const previous = await prisma.topicRun.findFirst({
+    where: { createdAt: { lt: run.createdAt } },
+    orderBy: { createdAt: "desc" },
+  });
+  return previous ? toSummary(previous) : null;
+}
+
+// Compare two runs. Topics with the same id in both continue (renamed if
+// their name changed). Of the rest, a vanished topic whose centroid is
+// close to a topic that continues, or that shares its closest new topic
+// with other vanished ones, was merged; a new topic close to one that
+// continues, or one of several new topics closest to the same vanished
+// one, came from a split. Whatever is left died or was born.
+export async function diffTopicRuns(fromId: string, toId: string): Promise<TopicRunDiff | null> {
+  const [from, to] = await Promise.all(
+    [fromId, toId].map((id) =>
+      prisma.topicRun.findUnique({ where: { id }, include: { topics: true } })
+    )
+  );
+  if (!from || !to) return null;
+
+  const toIds = new Set(to.topics.map((t) => t.topicId));
+  const fromIds = new Set(from.topics.map((t) => t.topicId));
+  const previousById = new Map(from.topics.map((t) => [t.topicId, t]));
+  const gone = from.topics.filter((t) => !toIds.has(t.topicId));
+  const fresh = to.topics.filter((t) => !fromIds.has(t.topicId));
+
+  // Closest topic on the other side, when it is close enough
+  const closest = (snapshot: TopicSnapshot, candidates: TopicSnapshot[]) => {
+    const nearest = findNearestCentroid(
+      snapshot.centroid,
+      candidates.map((c) => c.centroid)
+    );
+    return nearest.index >= 0 && nearest.similarity >= LINEAGE_THRESHOLD
+      ? candidates[nearest.index]
+      : null;
+  };
+
+  // Merges: vanished topics grouped by their closest new topic
+  const mergeGroups: Map<string, TopicSnapshot[]> = new Map();
+  gone.forEach((g) => {
+    const target = closest(g, to.topics);
+    if (!target) return;
+    if (!mergeGroups.has(target.topicId)) mergeGroups.set(target.topicId, []);
+    mergeGroups.get(target.topicId)!.push(g);
+  });
+
+  const merged: TopicRunDiff["merged"] = [];
+  const mergedAway = new Set<string>();
+  const mergeTargets = new Set<string>();
+  to.topics.forEach((target) => {
+    const sources = mergeGroups.get(target.topicId) || [];
+    const continues = fromIds.has(target.topicId);
+    if (sources.length === 0 || (!continues && sources.length < 2)) return;
+
+    const previous = continues ? [previousById.get(target.topicId)!] : [];
+    merged.push({ into: toVersion(target), from: [...previous, ...sources].map(toVersion) });
+    sources.forEach((s) => mergedAway.add(s.topicId));
+    mergeTargets.add(target.topicId);
+  });
+
+  // Splits: new topics grouped by their closest old topic
+  const splitGroups: Map<string, TopicSnapshot[]> = new Map();
+  fresh
+    .filter((f) => !mergeTargets.has(f.topicId))
+    .forEach((f) => {
+      const source = closest(f, from.topics);
+      if (!source || mergedAway.has(source.topicId)) return;
+      if (!splitGroups.has(source.topicId)) splitGroups.set(source.topicId, []);
+      splitGroups.get(source.topicId)!.push(f);
+    });
+
+  const split: TopicRunDiff["split"] = [];
+  const splitFrom = new Set<string>();
+  const splitInto = new Set<string>();
+  from.topics.forEach((source) => {
+    const parts = splitGroups.get(source.topicId) || [];
+    const continues = toIds.has(source.topicId);
+    if (parts.length === 0 || (!continues && parts.length < 2)) return;
+
+    const remainder = continues ? to.topics.filter((t) => t.topicId === source.topicId) : [];
+    split.push({ from: toVersion(source), into: [...remainder, ...parts].map(toVersion) });
+    splitFrom.add(source.topicId);
+    parts.forEach((p) => splitInto.add(p.topicId));
+  });
+
+  const renamed = to.topics
+    .filter((t) => fromIds.has(t.topicId) && previousById.get(t.topicId)!.name !== t.name)
+    .map((t) => ({ topic: toVersion(t), previousName: previousById.get(t.topicId)!.name }));
+
+  return {
+    from: toSummary(from),
+    to: toSummary(to),
+    born: fresh
+      .filter((t) => !mergeTargets.has(t.topicId) && !splitInto.has(t.topicId))
+      .map(toVersion),
+    died: gone
+      .filter((t) => !mergedAway.has(t.topicId) && !splitFrom.has(t.topicId))
+      .map(toVersion),
+    merged,
+    split,
+    renamed,
+  };
+}
+
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from "vitest";
+import { getNextPage } from "@/lib/ingest";
+import { MoltbookPost } from "@/types";
+
+vi.mock("@/lib/db", () => ({ default: {} }));
+
+const posts = (count: number): MoltbookPost[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `p${i}`,
+    content: "",
+    created_at: new Date(Date.UTC(2026, 0, 1, 0, 0, count - i)).toISOString(),
+  }));
+
+describe("getNextPage", () => {
+  it("stops when the API has no more posts", () => {
+    expect(getNextPage(new URLSearchParams(), { has_more: false, next_cursor: "c" }, posts(1))).toBeNull();
+  });
+
+  it("prefers the API cursor", () => {
+    expect(getNextPage(new URLSearchParams("offset=100"), { next_cursor: "abc" }, posts(100))).toBe(
+      "cursor=abc"
+    );
+  });
+
+  it("walks offsets, keeping the time window", () => {
+    const next = new URLSearchParams(
+      getNextPage(new URLSearchParams("offset=100&before=2026-01-01T00:00:00.000Z"), {}, posts(100))!
+    );
+    expect(next.get("offset")).toBe("200");
+    expect(next.get("before")).toBe("2026-01-01T00:00:00.000Z");
+  });
+
+  it("switches to a time window past the offset ceiling", () => {
+    const page = posts(100);
+    const next = new URLSearchParams(getNextPage(new URLSearchParams("offset=800"), {}, page)!);
+    expect(next.get("offset")).toBe("0");
+    expect(next.get("before")).toBe(page[page.length - 1].created_at);
+  });
+});
@@ -0,0 +1,609 @@
+import { IngestionJob } from "@prisma/client";
+import prisma from "@/lib/db";
+import { extractTopics, generateEmbeddings } from "@/lib/ai";
+import {
+  kMeansClustering,
+  embedTo3D,
+  cosineSimilarity,
+  findNearestCentroid,
+  suggestClusterCount,
+} from "@/lib/clustering";
+import {
+  parseVector,
+  loadTopicCentroids,
+  addPostsToTopic,
+  createTopicFromCluster,
+  linkRelatedTopics,
+  DEFAULT_SOFT_ASSIGNMENT,
+} from "@/lib/topics";
+import { getProjectionBasis, savePostPositions } from "@/lib/projection";
+import { checkpointJob, failJob } from "@/lib/jobs";
+import { saveTopicRun } from "@/lib/history";
+import { assignToSubtopics, planSubtopics, saveSubtopics } from "@/lib/hierarchy";
+import {
+  contentHash,
+  minhashSignature,
+  findCanonicalPost,
+  markDuplicate,
+  syncDuplicatePositions,
+  backfillSignatures,
+} from "@/lib/duplicates";
+import { MoltbookPost } from "@/types";
+
+const BATCH_SIZE = 100; // Process embeddings in batches
+const MOLTBOOK_PAGE_SIZE = 100; // Posts per API call
+const MAX_OFFSET = 800; // Moltbook API fails above ~1000 offset; switch to time windows past this
+const REQUEST_DELAY = 500; // ms between API calls
+const MAX_RETRIES = 3; // Retry failed requests
+const FETCH_COMPLETE = "complete"; // Cursor checkpointed once every page has been fetched
+export const SIMILARITY_THRESHOLD = 0.5; // Min cosine similarity to join an existing topic
+const EXTRACT_TOPIC_TAGS = process.env.EXTRACT_TOPIC_TAGS === "true"; // Merge AI topic tags into soft assignment
+
+async function fetchWithRetry(
+  url: string,
+  apiKey: string,
+  retries: number = MAX_RETRIES
+): Promise<Response> {
+  for (let attempt = 1; attempt <= retries; attempt++) {
+    try {
+      const response = await fetch(url, {
+        headers: { Authorization: `Bearer ${apiKey}` },
+      });
+
+      // Check for API-level errors in response
+      if (response.ok) {
+        const cloned = response.clone();
+        const data = await cloned.json();
+        if (data.success === false) {
+          throw new Error(data.error || 'API returned success: false');
+        }
+        // Return original response for further processing
+        return response;
+      }
+
+      if (response.status >= 500 && attempt < retries) {
+        console.log(`   ⚠️ Server error (${response.status}), retrying in ${attempt * 2}s...`);
+        await new Promise(resolve => setTimeout(resolve, attempt * 2000));
+        continue;
+      }
+
+      return response;
+    } catch (error) {
+      if (attempt < retries) {
+        console.log(`   ⚠️ Request failed, retrying in ${attempt * 2}s... (${error})`);
+        await new Promise(resolve => setTimeout(resolve, attempt * 2000));
+        continue;
+      }
+      throw error;
+    }
+  }
+  throw new Error('Max retries exceeded');
+}
+
+// Work out the query for the page after this one. Prefers the API's own
+// cursor; without one, walks offsets up to MAX_OFFSET and then restarts the
+// offset inside a time window ending at the oldest post seen so far.
+export function getNextPage(
+  current: URLSearchParams,
+  data: { next_cursor?: string; has_more?: boolean },
+  posts: MoltbookPost[]
+): string | null {
+  if (data.has_more === false) return null;
+
+  if (data.next_cursor) {
+    return new URLSearchParams({ cursor: data.next_cursor }).toString();
+  }
+
+  const before = current.get("before");
+  const offset = Number(current.get("offset") || 0) + posts.length;
+  if (offset <= MAX_OFFSET) {
+    const next = new URLSearchParams({ offset: String(offset) });
+    if (before) next.set("before", before);
+    return next.toString();
+  }
+
+  // Offset ceiling reached: walk backwards by created_at
+  const oldest = posts.reduce(
+    (min, p) => (p.created_at < min ? p.created_at : min),
+    posts[0].created_at
+  );
+  return new URLSearchParams({ before: oldest, offset: "0" }).toString();
+}
+
+// Fetch posts page by page, handing each page to onPage before moving on.
+// `startPage` is the checkpointed query of the page to resume from. Throws
+// when a page cannot be fetched, so the job fails and can be resumed.
+async function fetchPostPages(
+  baseUrl: string,
+  apiKey: string,
+  totalLimit: number,
+  startPage: string | null,
+  onPage: (posts: MoltbookPost[], nextPage: string | null) => Promise<void>
+): Promise<number> {
+  const seenIds = new Set<string>();
+  let fetched = 0;
+  let page: string | null = startPage || "offset=0";
+
+  console.log(`📥 Fetching up to ${totalLimit} posts from Moltbook...`);
+
+  while (page !== null && fetched < totalLimit) {
+    const remaining = totalLimit - fetched;
+    const fetchLimit = Math.min(MOLTBOOK_PAGE_SIZE, remaining);
+
+    const params = new URLSearchParams(page);
+    params.set("sort", "new");
+    params.set("limit", String(fetchLimit));
+    const url = `${baseUrl}?${params}`;
+
+    console.log(`   📡 Requesting: ${page}, limit=${fetchLimit}`);
+
+    // A failed page fails the job; the checkpoint of the last saved page
+    // lets it resume here
+    let response: Response;
+    try {
+      response = await fetchWithRetry(url, apiKey);
+    } catch (error) {
+      console.error(`   ❌ Fetch error at ${page}:`, error);
+      throw new Error(`Fetching ${page} failed after ${fetched} posts: ${error}`);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`   ❌ API Error ${response.status}: ${errorText}`);
+      throw new Error(`Moltbook API error ${response.status} at ${page}: ${errorText}`);
+    }
+
+    const data = await response.json();
+    const posts: MoltbookPost[] = data.posts || data.data || [];
+
+    console.log(`   📦 Got ${posts.length} posts`);
+
+    // An empty page is the normal end of the feed
+    if (posts.length === 0) {
+      console.log(`   ⚠️ No more posts returned, stopping pagination`);
+      break;
+    }
+
+    const nextPage = getNextPage(params, data, posts);
+
+    // Filter duplicates by ID
+    const newPosts = posts.filter((p) => !seenIds.has(p.id));
+    if (newPosts.length === 0) {
+      console.log(`   ⚠️ All posts were duplicates, stopping pagination`);
+      break;
+    }
+    newPosts.forEach((p) => seenIds.add(p.id));
+
+    await onPage(newPosts, nextPage);
+    fetched += newPosts.length;
+    page = nextPage;
+
+    console.log(`   ✅ Total: ${fetched}/${totalLimit} posts`);
+
+    // Longer delay to avoid rate limiting
+    await new Promise(resolve => setTimeout(resolve, REQUEST_DELAY));
+  }
+
+  console.log(`✅ Fetched ${fetched} posts total`);
+  return fetched;
+}
+
+// Upsert the submolts referenced by a batch, returning their ids by Moltbook id
+async function saveSubmolts(batch: MoltbookPost[]): Promise<Map<string, string>> {
+  const submoltIds: Map<string, string> = new Map();
+
+  for (const post of batch) {
+    const submolt = post.submolt;
+    if (!submolt || submoltIds.has(submolt.id)) continue;
+
+    const saved = await prisma.submolt.upsert({
+      where: { externalId: submolt.id },
+      create: {
+        externalId: submolt.id,
+        name: submolt.name,
+        displayName: submolt.display_name || submolt.name,
+      },
+      update: {
+        name: submolt.name,
+        displayName: submolt.display_name || submolt.name,
+      },
+    });
+    submoltIds.set(submolt.id, saved.id);
+  }
+
+  return submoltIds;
+}
+
+// Upsert the authors of a batch
+async function saveAuthors(batch: MoltbookPost[]): Promise<void> {
+  const seen = new Set<string>();
+
+  for (const post of batch) {
+    const author = post.author;
+    if (!author || seen.has(author.id)) continue;
+
+    await prisma.author.upsert({
+      where: { id: author.id },
+      create: { id: author.id, name: author.name },
+      update: { name: author.name },
+    });
+    seen.add(author.id);
+  }
+}
+
+// Refresh the cached post counts of a batch's authors
+async function countAuthorPosts(batch: MoltbookPost[]): Promise<void> {
+  const authorIds = [...new Set(batch.flatMap((post) => (post.author ? [post.author.id] : [])))];
+  if (authorIds.length === 0) return;
+
+  await prisma.$executeRaw`
+    UPDATE authors a
+    SET post_count = (SELECT COUNT(*) FROM posts p WHERE p.author_id = a.id)
+    WHERE a.id = ANY(${authorIds})
+  `;
+}
+
+// Moltbook's own timestamp for a post, if it parses
+function sourceCreatedAt(post: MoltbookPost): Date | undefined {
+  const date = new Date(post.created_at);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// Save a batch of posts with their embeddings. New posts that repeat an
+// already stored post are collapsed into it and left out of the result, so
+// they are never clustered.
+async function saveBatch(
+  batch: MoltbookPost[]
+): Promise<{ postIds: string[]; embeddings: number[][]; duplicates: number; errors: number }> {
+  const postIds: string[] = [];
+  const embeddings: number[][] = [];
+  let duplicates = 0;
+  let errors = 0;
+
+  // Prepare texts for batch embedding
+  const texts = batch.map((post) =>
+    post.title ? `${post.title}\n${post.content}` : post.content
+  );
+
+  // Generate embeddings in one API call (much faster!)
+  console.log(`   🧠 Generating ${batch.length} embeddings...`);
+  const batchEmbeddings = await generateEmbeddings(texts);
+
+  // Save posts to database
+  console.log(`   💾 Saving to database...`);
+  const submoltIds = await saveSubmolts(batch);
+  await saveAuthors(batch);
+
+  // Re-ingested posts keep their duplicate status
+  const existing = new Map(
+    (
+      await prisma.post.findMany({
+        where: { externalId: { in: batch.map((post) => post.id) } },
+        select: { externalId: true, canonicalId: true },
+      })
+    ).map((p) => [p.externalId, p.canonicalId])
+  );
+
+  for (let j = 0; j < batch.length; j++) {
+    const post = batch[j];
+    const embedding = batchEmbeddings[j];
+    const hash = contentHash(texts[j]);
+    const signature = minhashSignature(texts[j]);
+
+    try {
+      const data = {
+        content: post.content,
+        title: post.title,
+        author: post.author?.name || null,
+        authorId: post.author?.id || null,
+        url: post.url,
+        createdAt: sourceCreatedAt(post),
+        submoltId: post.submolt ? submoltIds.get(post.submolt.id) : null,
+        contentHash: hash,
+        minhash: signature,
+      };
+
+      const savedPost = await prisma.post.upsert({
+        where: { externalId: post.id },
+        create: { externalId: post.id, ...data },
+        update: data,
+      });
+
+      // Store embedding
+      await prisma.$executeRaw`
+        UPDATE posts
+        SET embedding = ${`[${embedding.join(",")}]`}::vector
+        WHERE id = ${savedPost.id}
+      `;
+
+      const canonicalId = existing.has(post.id)
+        ? existing.get(post.id)
+        : await findCanonicalPost(savedPost.id, hash, signature, embedding);
+      if (canonicalId) {
+        if (!existing.has(post.id)) await markDuplicate(savedPost.id, canonicalId);
+        duplicates++;
+        continue;
+      }
+
+      postIds.push(savedPost.id);
+      embeddings.push(embedding);
+    } catch (err) {
+      console.error(`   ❌ Error saving post ${post.id}:`, err);
+      errors++;
+    }
+  }
+  await countAuthorPosts(batch);
+
+  return { postIds, embeddings, duplicates, errors };
+}
+
+// Load embedded posts that are not linked to any topic yet (e.g. saved by an
+// interrupted run before it reached the clustering step). Duplicates never
+// get topics, so they are skipped.
+async function loadUnassignedPosts(): Promise<Map<string, number[]>> {
+  const rows = await prisma.$queryRaw<Array<{ id: string; embedding: string }>>`
+    SELECT p.id, p.embedding::text AS embedding
+    FROM posts p
+    WHERE p.embedding IS NOT NULL
+      AND p.canonical_id IS NULL
+      AND NOT EXISTS (SELECT 1 FROM post_topics pt WHERE pt.post_id = p.id)
+  `;
+  return new Map(rows.map((r) => [r.id, parseVector(r.embedding)]));
+}
+
+// Ask the AI provider for topic tags per post. This is one chat call per
+// post, so it is opt-in via EXTRACT_TOPIC_TAGS.
+async function extractPostTags(postIds: string[]): Promise<string[][]> {
+  const posts = await prisma.post.findMany({
+    where: { id: { in: postIds } },
+    select: { id: true, title: true, content: true },
+  });
+  const contentById = new Map(
+    posts.map((p) => [p.id, [p.title, p.content].filter(Boolean).join("\n\n")])
+  );
+
+  const tags: string[][] = [];
+  for (const postId of postIds) {
+    try {
+      tags.push(await extractTopics(contentById.get(postId) || ""));
+    } catch (error) {
+      console.warn(`   ⚠️ Tag extraction failed for ${postId}:`, error);
+      tags.push([]);
+    }
+  }
+  return tags;
+}
+
+// Checkpoint a job resumes from
+export interface IngestCheckpoint {
+  cursor: string | null;
+  lastBatch: number;
+  processed: number;
+  errors: number;
+}
+
+export async function ingestDataFast(
+  jobId: string,
+  apiUrl: string,
+  apiKey: string,
+  limit: number,
+  similarityThreshold: number,
+  checkpoint: IngestCheckpoint = { cursor: null, lastBatch: 0, processed: 0, errors: 0 }
+) {
+  let { processed, errors } = checkpoint;
+
+  try {
+    // Posts from before duplicate detection need signatures to be matched
+    const backfilled = await backfillSignatures();
+    if (backfilled > 0) {
+      console.log(`🪞 Backfilled duplicate signatures for ${backfilled} stored posts`);
+    }
+
+    // 1. Fetch posts page by page, saving and checkpointing each batch. A
+    // resumed job whose fetch already finished goes straight to clustering;
+    // jobs checkpointed before FETCH_COMPLETE existed left a null cursor.
+    const runEmbeddings: Map<string, number[]> = new Map();
+    let batchNum = checkpoint.lastBatch;
+    const fetchDone =
+      checkpoint.cursor === FETCH_COMPLETE ||
+      (checkpoint.cursor === null && checkpoint.lastBatch > 0);
+
+    if (!fetchDone) {
+      await fetchPostPages(apiUrl, apiKey, limit, checkpoint.cursor, async (posts, nextPage) => {
+        // 2. Process in batches
+        for (let i = 0; i < posts.length; i += BATCH_SIZE) {
+          const batch = posts.slice(i, i + BATCH_SIZE);
+          batchNum++;
+
+          console.log(`\n📦 Batch ${batchNum} (${batch.length} posts)`);
+
+          try {
+            const saved = await saveBatch(batch);
+            saved.postIds.forEach((id, j) => runEmbeddings.set(id, saved.embeddings[j]));
+            processed += saved.postIds.length + saved.duplicates;
+            errors += saved.errors;
+
+            if (saved.duplicates > 0) {
+              console.log(`   🪞 ${saved.duplicates} near-duplicates collapsed`);
+            }
+            console.log(`   ✅ Batch complete (${processed}/${limit} total)`);
+          } catch (err) {
+            console.error(`❌ Batch ${batchNum} failed:`, err);
+            errors += batch.length;
+          }
+        }
+
+        // Checkpoint progress so an interrupted run can resume from the next page
+        await checkpointJob(jobId, {
+          processed,
+          errors,
+          cursor: nextPage ?? FETCH_COMPLETE,
+          lastBatch: batchNum,
+        });
+      });
+      await checkpointJob(jobId, { cursor: FETCH_COMPLETE });
+    }
+
+    // 3. Assign posts to topics (existing topics first, new clusters for the rest).
+    // Unassigned posts left behind by interrupted runs are picked up here too.
+    const unassignedPosts = await loadUnassignedPosts();
+    const allEmbeddings: Map<string, number[]> = new Map([...runEmbeddings, ...unassignedPosts]);
+
+    if (allEmbeddings.size > 0) {
+      const allPostIds = [...allEmbeddings.keys()];
+      const embeddings = [...allEmbeddings.values()];
+
+      // Calculate 3D positions
+      console.log(`\n📍 Calculating 3D positions...`);
+      const basis = await getProjectionBasis(embeddings);
+      const positions = embedTo3D(embeddings, basis);
+
+      // Update post positions (batch update)
+      console.log(`   💾 Updating post positions...`);
+      await savePostPositions(allPostIds, positions);
+      await syncDuplicatePositions();
+
+      // Posts re-ingested from an earlier run keep their existing topics
+      const unassignedIds = allPostIds.filter((id) => unassignedPosts.has(id));
+      const existingTopics = await loadTopicCentroids();
+      const topicAssignments: Map<number, string[]> = new Map();
+      const unassigned: string[] = [];
+
+      unassignedIds.forEach((postId) => {
+        const nearest = findNearestCentroid(
+          allEmbeddings.get(postId)!,
+          existingTopics.map((t) => t.centroid)
+        );
+        if (nearest.index >= 0 && nearest.similarity >= similarityThreshold) {
+          if (!topicAssignments.has(nearest.index)) {
+            topicAssignments.set(nearest.index, []);
+          }
+          topicAssignments.get(nearest.index)!.push(postId);
+        } else {
+          unassigned.push(postId);
+        }
+      });
+
+      console.log(
+        `\n🧲 Assigning posts to ${existingTopics.length} existing topics (threshold ${similarityThreshold})...`
+      );
+      for (const [topicIdx, topicPostIds] of topicAssignments) {
+        const topicEmbeddings = topicPostIds.map((id) => allEmbeddings.get(id)!);
+        await addPostsToTopic(
+          existingTopics[topicIdx],
+          topicPostIds,
+          topicEmbeddings,
+          topicEmbeddings.map((emb) =>
+            cosineSimilarity(emb, existingTopics[topicIdx].centroid)
+          )
+        );
+        await assignToSubtopics(existingTopics[topicIdx].id, topicPostIds, topicEmbeddings);
+      }
+      console.log(
+        `   ✅ ${unassignedIds.length - unassigned.length} posts joined existing topics, ${unassigned.length} left over`
+      );
+
+      // Cluster leftover posts into new topics
+      if (unassigned.length > 0) {
+        console.log(`\n🎯 Clustering ${unassigned.length} posts into new topics...`);
+
+        const numClusters = suggestClusterCount(unassigned.length);
+
+        console.log(`   Creating ${numClusters} topic clusters...`);
+        const { clusters, centroids } = kMeansClustering(
+          unassigned.map((id) => allEmbeddings.get(id)!),
+          numClusters
+        );
+        const centroidPositions = embedTo3D(centroids, basis);
+
+        // Group posts by cluster
+        const clusterPostsMap: Map<number, string[]> = new Map();
+        clusters.forEach((clusterIdx, idx) => {
+          if (!clusterPostsMap.has(clusterIdx)) {
+            clusterPostsMap.set(clusterIdx, []);
+          }
+          clusterPostsMap.get(clusterIdx)!.push(unassigned[idx]);
+        });
+
+        // Create topics
+        console.log(`   🏷️  Generating topic labels with AI...`);
+        let topicNum = 0;
+        for (const [clusterIdx, clusterPostIds] of clusterPostsMap) {
+          topicNum++;
+          console.log(`      Topic ${topicNum}/${clusterPostsMap.size} (${clusterPostIds.length} posts)`);
+
+          const clusterEmbeddings = clusterPostIds.map((id) => allEmbeddings.get(id)!);
+          const topicId = await createTopicFromCluster({
+            postIds: clusterPostIds,
+            centroid: centroids[clusterIdx],
+            colorIndex: existingTopics.length + clusterIdx,
+            position: centroidPositions[clusterIdx],
+            relevances: clusterEmbeddings.map((emb) => cosineSimilarity(emb, centroids[clusterIdx])),
+          });
+          await saveSubtopics(topicId, await planSubtopics(clusterPostIds, clusterEmbeddings), basis);
+          await checkpointJob(jobId);
+        }
+      }
+
+      // Soft assignment: link every post to its other close topics
+      console.log(`\n🔗 Linking posts to related topics...`);
+      const tags = EXTRACT_TOPIC_TAGS ? await extractPostTags(allPostIds) : [];
+      const linked = await linkRelatedTopics(
+        allPostIds,
+        embeddings,
+        await loadTopicCentroids(),
+        DEFAULT_SOFT_ASSIGNMENT,
+        tags
+      );
+      console.log(`   ✅ ${linked} secondary topic links`);
+
+      await saveTopicRun(jobId, "ingest");
+    }
+
+    // 4. Mark complete
+    await checkpointJob(jobId);
+    await prisma.ingestionJob.update({
+      where: { id: jobId },
+      data: {
+        status: "completed",
+        completedAt: new Date(),
+        totalItems: processed + errors,
+        processed,
+        errors,
+      },
+    });
+
+    console.log(`\n🎉 Ingestion complete!`);
+    console.log(`   ✅ Processed: ${processed}`);
+    console.log(`   ❌ Errors: ${errors}`);
+
+  } catch (error) {
+    console.error("❌ Ingestion failed:", error);
+    await failJob(jobId, error, { processed, errors });
+  }
+}
+
+// Continue an ingestion job from its last checkpoint
+export async function resumeIngestion(
+  job: IngestionJob,
+  apiKey: string,
+  similarityThreshold: number = SIMILARITY_THRESHOLD
+) {
+  if (!job.sourceUrl) {
+    throw new Error(`Job ${job.id} has no source URL to resume from`);
+  }
+
+  await ingestDataFast(
+    job.id,
+    job.sourceUrl,
+    apiKey,
+    Math.max(job.totalItems - job.processed - job.errors, 0),
+    similarityThreshold,
+    {
+      cursor: job.cursor,
+      lastBatch: job.lastBatch,
+      processed: job.processed,
+      errors: job.errors,
+    }
+  );
+}
@@ -0,0 +1,94 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/db";
+
+// Statuses from which a job can be resumed. A cancelled job only gets
+// there once its run has stopped; until then it is "cancelling".
+export const RESUMABLE_STATUSES = ["failed", "cancelled", "interrupted"];
+
+// Statuses of a job whose run is still going
+const ACTIVE_STATUSES = ["running", "cancelling"];
+
+// Ingests and re-clusters rewrite the same topics, so only one job of
+// either type may run at a time
+export async function findRunningJob(exceptId?: string) {
+  return prisma.ingestionJob.findFirst({
+    where: { status: { in: ACTIVE_STATUSES }, ...(exceptId ? { id: { not: exceptId } } : {}) },
+  });
+}
+
+// Thrown from a checkpoint once the job has been cancelled
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = "JobCancelledError";
+  }
+}
+
+// Persist job progress and heartbeat, then stop the run if the job has been
+// cancelled in the meantime
+export async function checkpointJob(
+  jobId: string,
+  data: Prisma.IngestionJobUpdateInput = {}
+): Promise<void> {
+  const job = await prisma.ingestionJob.update({
+    where: { id: jobId },
+    data: { ...data, heartbeatAt: new Date() },
+  });
+
+  if (job.status === "cancelling") {
+    throw new JobCancelledError(jobId);
+  }
+}
+
+// Record how a job run ended: a cancelled run is marked cancelled, anything
+// else failed
+export async function failJob(
+  jobId: string,
+  error: unknown,
+  data: Prisma.IngestionJobUpdateInput = {}
+): Promise<void> {
+  if (error instanceof JobCancelledError) {
+    console.log(`🛑 ${error.message}`);
+    await prisma.ingestionJob.update({
+      where: { id: jobId },
+      data: { ...data, status: "cancelled", completedAt: new Date() },
+    });
+    return;
+  }
+
+  await prisma.ingestionJob.update({
+    where: { id: jobId },
+    data: {
+      ...data,
+      status: "failed",
+      completedAt: new Date(),
+      errorLog: String(error),
+    },
+  });
+}
+
+// Mark jobs left running by a previous server process as interrupted so
+// they can be resumed. Jobs run inside the server process, so this is only
+// called at startup, when no job can still be running; long phases such as
+// k-means or the topic swap send no heartbeat and must not be cut off.
+export async function markStaleJobs(): Promise<number> {
+  const [{ count }] = await prisma.$transaction([
+    prisma.ingestionJob.updateMany({
+      where: { status: "running" },
+      data: {
+        status: "interrupted",
+        errorLog: "Job was still running when the server stopped",
+      },
+    }),
+    // A run that was stopping anyway has stopped
+    prisma.ingestionJob.updateMany({
+      where: { status: "cancelling" },
+      data: { status: "cancelled", completedAt: new Date() },
+    }),
+  ]);
+
+  if (count > 0) {
+    console.log(`⚠️ Marked ${count} stale job(s) as interrupted`);
+  }
+  return count;
+}
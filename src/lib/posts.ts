@@ -0,0 +1,114 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/db";
+import { Post, PostNeighbor } from "@/types";
+
+export const NEIGHBOR_COUNT = 5; // Default neighbors returned with a post
+const LABEL_LENGTH = 80;
+
+// Relations included whenever a full post is returned
+export const POST_INCLUDE = {
+  submolt: {
+    select: {
+      id: true,
+      name: true,
+      displayName: true,
+    },
+  },
+  topics: {
+    orderBy: { relevance: "desc" }, // Strongest topic first
+    include: {
+      topic: {
+        select: {
+          id: true,
+          name: true,
+          color: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.PostInclude;
+
+export function serializePost(
+  p: Prisma.PostGetPayload<{ include: typeof POST_INCLUDE }>
+): Post {
+  return {
+    id: p.id,
+    externalId: p.externalId ?? undefined,
+    content: p.content,
+    title: p.title ?? undefined,
+    author: p.author ?? undefined,
+    authorId: p.authorId ?? undefined,
+    url: p.url ?? undefined,
+    createdAt: p.createdAt.toISOString(),
+    posX: p.posX ?? undefined,
+    posY: p.posY ?? undefined,
+    posZ: p.posZ ?? undefined,
+    submolt: p.submolt,
+    canonicalId: p.canonicalId ?? undefined,
+    duplicateCount: p.duplicateCount,
+    topics: p.topics.map((pt) => ({
+      id: pt.topic.id,
+      name: pt.topic.name,
+      color: pt.topic.color,
+      relevance: pt.relevance,
+    })),
+  };
+}
+
+// The k posts nearest to a post by embedding cosine distance, leaving out
+// near-duplicates. With otherTopics, posts sharing any topic with it are
+// skipped, which surfaces related posts elsewhere on the map.
+export async function findNeighbors(
+  postId: string,
+  k: number = NEIGHBOR_COUNT,
+  options: { otherTopics?: boolean } = {}
+): Promise<PostNeighbor[]> {
+  const rows = await prisma.$queryRaw<
+    Array<{
+      id: string;
+      label: string;
+      similarity: number;
+      color: string | null;
+      pos_x: number | null;
+      pos_y: number | null;
+      pos_z: number | null;
+    }>
+  >`
+    SELECT p.id,
+           left(coalesce(nullif(p.title, ''), p.content), ${LABEL_LENGTH}) AS label,
+           1 - (p.embedding <=> src.embedding) AS similarity,
+           (SELECT t.color FROM post_topics pt
+            JOIN topics t ON t.id = pt.topic_id
+            WHERE pt.post_id = p.id
+            ORDER BY pt.relevance DESC
+            LIMIT 1) AS color,
+           p.pos_x, p.pos_y, p.pos_z
+    FROM posts p, posts src
+    WHERE src.id = ${postId}
+      AND p.id <> src.id
+      AND p.canonical_id IS NULL
+      AND p.embedding IS NOT NULL
+      AND src.embedding IS NOT NULL
+      ${
+        options.otherTopics
+          ? Prisma.sql`AND NOT EXISTS (
+              SELECT 1 FROM post_topics pt
+              WHERE pt.post_id = p.id
+                AND pt.topic_id IN (SELECT topic_id FROM post_topics WHERE post_id = src.id)
+            )`
+          : Prisma.empty
+      }
+    ORDER BY p.embedding <=> src.embedding
+    LIMIT ${k}
+  `;
+
+  return rows.map((r) => ({
+    id: r.id,
+    label: r.label,
+    similarity: r.similarity,
+    color: r.color ?? undefined,
+    posX: r.pos_x ?? undefined,
+    posY: r.pos_y ?? undefined,
+    posZ: r.pos_z ?? undefined,
+  }));
+}
@@ -0,0 +1,80 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/db";
+import { ProjectionBasis, computeProjectionBasis } from "@/lib/clustering";
+
+const POSITION_BATCH = 5000; // Posts positioned per UPDATE statement
+
+// Load the most recently persisted projection basis, if any
+export async function loadProjectionBasis(
+  db: Prisma.TransactionClient = prisma
+): Promise<ProjectionBasis | null> {
+  const projection = await db.projection.findFirst({
+    orderBy: { createdAt: "desc" },
+  });
+  if (!projection) return null;
+
+  const dim = projection.mean.length;
+  return {
+    mean: projection.mean,
+    components: [0, 1, 2].map((c) =>
+      projection.components.slice(c * dim, (c + 1) * dim)
+    ),
+    scale: projection.scale,
+  };
+}
+
+// Persist a basis as the latest one
+export async function saveProjectionBasis(
+  basis: ProjectionBasis,
+  sampleSize: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await db.projection.create({
+    data: {
+      mean: basis.mean,
+      components: basis.components.flat(),
+      scale: basis.scale,
+      sampleSize,
+    },
+  });
+}
+
+// Reuse the persisted basis, or bootstrap one from these embeddings.
+// A basis with a different dimension (e.g. after switching embedding
+// models) is replaced.
+export async function getProjectionBasis(
+  embeddings: number[][]
+): Promise<ProjectionBasis> {
+  const existing = await loadProjectionBasis();
+  if (existing && existing.mean.length === embeddings[0]?.length) {
+    return existing;
+  }
+
+  const basis = computeProjectionBasis(embeddings);
+  await saveProjectionBasis(basis, embeddings.length);
+  return basis;
+}
+
+// Write post positions in bulk, one statement per batch rather than one per
+// post, so full-corpus updates fit in a transaction
+export async function savePostPositions(
+  postIds: string[],
+  positions: { x: number; y: number; z: number }[],
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  for (let i = 0; i < postIds.length; i += POSITION_BATCH) {
+    const ids = postIds.slice(i, i + POSITION_BATCH);
+    const batch = positions.slice(i, i + POSITION_BATCH);
+    await db.$executeRaw`
+      UPDATE posts
+      SET pos_x = v.x, pos_y = v.y, pos_z = v.z
+      FROM unnest(
+        ${ids}::text[],
+        ${batch.map((p) => p.x)}::float8[],
+        ${batch.map((p) => p.y)}::float8[],
+        ${batch.map((p) => p.z)}::float8[]
+      ) AS v(id, x, y, z)
+      WHERE posts.id = v.id
+    `;
+  }
+}
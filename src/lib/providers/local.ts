@@ -0,0 +1,106 @@
+import { AIProvider, ProviderConfig } from "./types";
+
+const STOPWORDS = new Set(
+  `a about above after again all also am an and any are as at be because been
+  before being below between both but by can could did do does doing down during
+  each few for from further get got had has have having he her here hers him his
+  how i if in into is it its itself just like me more most my no nor not now of
+  off on once only or other our ours out over own same she should so some such
+  than that the their theirs them then there these they this those through to
+  too under until up very was we were what when where which while who whom why
+  will with would you your yours`.split(/\s+/)
+);
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9@#_'-]+/g) || [])
+    .map((token) => token.replace(/^['-]+|['-]+$/g, ""))
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+// 32-bit FNV-1a hash
+function hash(token: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    h ^= token.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function countTerms(texts: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  texts.forEach((text) =>
+    tokenize(text).forEach((token) => counts.set(token, (counts.get(token) || 0) + 1))
+  );
+  return counts;
+}
+
+function topTerms(counts: Map<string, number>, n: number): string[] {
+  return [...counts.entries()]
+    .filter(([term]) => term.length > 3 && !/^\d+$/.test(term))
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, n)
+    .map(([term]) => term);
+}
+
+// Term standing in for text with no tokens (empty, punctuation or stopwords
+// only), so it still embeds to a unit vector instead of zeros, whose cosine
+// similarity is NaN
+const EMPTY_TERM = "\u0000empty";
+
+function titleCase(term: string): string {
+  return term.charAt(0).toUpperCase() + term.slice(1);
+}
+
+// Deterministic offline provider for dev and CI: no network, no model.
+// Embeddings are hashed bag-of-words vectors (unigrams + bigrams) with
+// sublinear TF weighting. Common words are dropped by a stopword list rather
+// than a corpus IDF, so vectors stay stateless and comparable across calls.
+// Topics and labels come from the most frequent terms.
+export function createLocalProvider(config: ProviderConfig): AIProvider {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array(config.dimension).fill(0);
+    const tokens = tokenize(text);
+    const terms =
+      tokens.length > 0
+        ? [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)]
+        : [EMPTY_TERM];
+
+    const counts = new Map<string, number>();
+    terms.forEach((term) => counts.set(term, (counts.get(term) || 0) + 1));
+
+    counts.forEach((count, term) => {
+      const h = hash(term);
+      // Feature hashing: one bucket per term, with a hashed sign to cancel collisions
+      const sign = h & 0x80000000 ? -1 : 1;
+      vector[h % config.dimension] += sign * (1 + Math.log(count));
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+    return vector.map((val) => val / norm);
+  };
+
+  return {
+    name: "local",
+
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+
+    async extractTopics(content) {
+      return topTerms(countTerms([content]), 3);
+    },
+
+    async generateClusterLabel(postContents) {
+      const terms = topTerms(countTerms(postContents.slice(0, 10)), 3);
+      if (terms.length === 0) {
+        return { name: "Uncategorized", description: "" };
+      }
+
+      return {
+        name: terms.slice(0, 2).map(titleCase).join(" "),
+        description: `Posts mentioning ${terms.join(", ")}.`,
+      };
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import OpenAI from "openai";
+import { AIProvider, ProviderConfig } from "./types";
+
+// OpenAI, or any server speaking the OpenAI HTTP API (Ollama, llama.cpp,
+// vLLM...) when a baseURL is given
+export function createOpenAIProvider(config: ProviderConfig): AIProvider {
+  const isOpenAI = !config.baseURL;
+  const client = new OpenAI({
+    apiKey: config.apiKey || (isOpenAI ? undefined : "not-needed"),
+    baseURL: config.baseURL,
+  });
+
+  return {
+    name: isOpenAI ? "openai" : "openai-compatible",
+
+    async embed(texts) {
+      const response = await client.embeddings.create({
+        model: config.embeddingModel,
+        input: texts,
+        // Only OpenAI's text-embedding-3 models can shorten their output
+        ...(isOpenAI ? { dimensions: config.dimension } : {}),
+      });
+
+      const embeddings = response.data.map((d) => d.embedding);
+      if (embeddings[0] && embeddings[0].length !== config.dimension) {
+        throw new Error(
+          `${config.embeddingModel} returned ${embeddings[0].length}-dimensional embeddings, ` +
+            `but EMBEDDING_DIMENSION is ${config.dimension}`
+        );
+      }
+      return embeddings;
+    },
+
+    // Extract topics from content using the chat model
+    async extractTopics(content) {
+      const response = await client.chat.completions.create({
+        model: config.chatModel,
+        messages: [
+          {
+            role: "system",
+            content: `You are a topic extraction assistant. Extract 1-3 relevant topic tags from the given content.
+Return a JSON object with a "topics" key holding an array of strings. Topics should be:
+- Lowercase
+- 1-3 words each
+- Broadly applicable (not too specific)
+- Relevant to categorizing social media content
+
+Example output: {"topics": ["artificial intelligence", "programming", "startups"]}`,
+          },
+          {
+            role: "user",
+            content: content,
+          },
+        ],
+        response_format: { type: "json_object" },
+        temperature: 0.3,
+      });
+
+      try {
+        const result = JSON.parse(response.choices[0].message.content || "{}");
+        const topics: unknown = result?.topics;
+        return Array.isArray(topics) ? topics.filter((t): t is string => typeof t === "string") : [];
+      } catch {
+        return [];
+      }
+    },
+
+    // Generate a summary/label for a cluster of posts
+    async generateClusterLabel(postContents) {
+      const samplePosts = postContents.slice(0, 10).join("\n---\n");
+
+      const response = await client.chat.completions.create({
+        model: config.chatModel,
+        messages: [
+          {
+            role: "system",
+            content: `Analyze these posts and generate a topic label and brief description.
+Return JSON with:
+- name: A short topic name (1-3 words, title case)
+- description: A one-sentence description of what this cluster is about`,
+          },
+          {
+            role: "user",
+            content: samplePosts,
+          },
+        ],
+        response_format: { type: "json_object" },
+        temperature: 0.5,
+      });
+
+      try {
+        const result = JSON.parse(response.choices[0].message.content || "{}");
+        return {
+          name: result.name || "Uncategorized",
+          description: result.description || "",
+        };
+      } catch {
+        return { name: "Uncategorized", description: "" };
+      }
+    },
+  };
+}
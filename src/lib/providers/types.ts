@@ -0,0 +1,20 @@
+// Embedding + LLM backend used by the ingestion and search pipeline
+export interface AIProvider {
+  name: string;
+  // Embed texts into vectors of the configured dimension
+  embed(texts: string[]): Promise<number[][]>;
+  // Extract 1-3 lowercase topic tags from a post
+  extractTopics(content: string): Promise<string[]>;
+  // Generate a short name and description for a cluster of posts
+  generateClusterLabel(
+    postContents: string[]
+  ): Promise<{ name: string; description: string }>;
+}
+
+export interface ProviderConfig {
+  dimension: number;
+  baseURL?: string;
+  apiKey?: string;
+  embeddingModel: string;
+  chatModel: string;
+}
@@ -0,0 +1,216 @@
+import prisma from "@/lib/db";
+import {
+  kMeansClustering,
+  embedTo3D,
+  suggestClusterCount,
+  computeProjectionBasis,
+  cosineSimilarity,
+  matchCentroids,
+} from "@/lib/clustering";
+import {
+  parseVector,
+  labelCluster,
+  createTopicFromCluster,
+  linkRelatedTopics,
+  loadTopicCentroids,
+  TopicCentroid,
+  DEFAULT_SOFT_ASSIGNMENT,
+} from "@/lib/topics";
+import { saveProjectionBasis, savePostPositions } from "@/lib/projection";
+import { checkpointJob, failJob } from "@/lib/jobs";
+import { saveTopicRun, TOPIC_MATCH_THRESHOLD } from "@/lib/history";
+import { planSubtopics, saveSubtopics, SubtopicPlan } from "@/lib/hierarchy";
+import { syncDuplicatePositions } from "@/lib/duplicates";
+import { loadLockedTopics, refreshTopic } from "@/lib/curation";
+
+const SWAP_TIMEOUT = 5 * 60 * 1000; // ms allowed for the topic swap transaction
+
+// Rebuild every topic from scratch over the full post corpus.
+// Clustering and AI labeling run first; the old Topic/PostTopic rows are only
+// replaced in a single transaction at the end, so readers never see a
+// half-built map. Clusters that closely match a previous topic keep its id
+// and color, so topics stay recognizable across runs. Locked topics are
+// kept as they are, and their posts are not re-clustered.
+export async function reclusterAll(jobId: string) {
+  try {
+    // 1. Load every stored embedding, leaving out near-duplicates
+    console.log(`\n📚 Loading post embeddings...`);
+    const rows = await prisma.$queryRaw<Array<{ id: string; embedding: string }>>`
+      SELECT id, embedding::text AS embedding
+      FROM posts
+      WHERE embedding IS NOT NULL
+        AND canonical_id IS NULL
+      ORDER BY created_at
+    `;
+
+    const postIds = rows.map((r) => r.id);
+    const embeddings = rows.map((r) => parseVector(r.embedding));
+
+    await prisma.ingestionJob.update({
+      where: { id: jobId },
+      data: { totalItems: postIds.length },
+    });
+
+    if (postIds.length === 0) {
+      throw new Error("No post embeddings to cluster");
+    }
+
+    // 2. Cluster the full corpus, except posts of locked topics
+    const locked = await loadLockedTopics();
+    const lockedTopicIds = new Set(locked.topicIds);
+    const lockedPostIds = new Set(locked.postIds);
+    const freeIdxs = postIds.flatMap((id, i) => (lockedPostIds.has(id) ? [] : [i]));
+    if (lockedTopicIds.size > 0) {
+      console.log(`   🔒 Keeping ${lockedTopicIds.size} locked topics (${postIds.length - freeIdxs.length} posts)`);
+    }
+
+    const numClusters = suggestClusterCount(freeIdxs.length);
+    console.log(`🎯 Re-clustering ${freeIdxs.length} posts into ${numClusters} topics...`);
+    const { clusters, centroids } = kMeansClustering(
+      freeIdxs.map((i) => embeddings[i]),
+      numClusters
+    );
+
+    console.log(`   📍 Calculating 3D positions...`);
+    const basis = computeProjectionBasis(embeddings);
+    const positions = embedTo3D(embeddings, basis);
+    const centroidPositions = embedTo3D(centroids, basis);
+
+    // Group posts by cluster
+    const postIndex = new Map(postIds.map((id, i) => [id, i]));
+    const clusterPostsMap: Map<number, string[]> = new Map();
+    clusters.forEach((clusterIdx, i) => {
+      if (!clusterPostsMap.has(clusterIdx)) {
+        clusterPostsMap.set(clusterIdx, []);
+      }
+      clusterPostsMap.get(clusterIdx)!.push(postIds[freeIdxs[i]]);
+    });
+
+    // Match clusters to the current (unlocked) topics by centroid
+    const currentTopics = await loadTopicCentroids();
+    const lockedTopics = currentTopics.filter((t) => lockedTopicIds.has(t.id));
+    const previousTopics = currentTopics.filter((t) => !lockedTopicIds.has(t.id));
+    const previousColors = new Map(
+      (await prisma.topic.findMany({ select: { id: true, color: true } })).map((t) => [t.id, t.color])
+    );
+    const clusterIdxs = [...clusterPostsMap.keys()];
+    const matches = new Map(
+      [
+        ...matchCentroids(
+          previousTopics.map((t) => t.centroid),
+          clusterIdxs.map((idx) => centroids[idx]),
+          TOPIC_MATCH_THRESHOLD
+        ),
+      ].map(([j, prev]) => [clusterIdxs[j], prev])
+    );
+    console.log(`   🧬 ${matches.size} of ${clusterPostsMap.size} topics continue a previous topic`);
+
+    // 3. Label clusters, and split large ones into subtopics, before
+    // touching the live topics
+    console.log(`   🏷️  Generating topic labels with AI...`);
+    const labels: Map<number, { name: string; description: string }> = new Map();
+    const subtopics: Map<number, SubtopicPlan[]> = new Map();
+    let processed = 0;
+    for (const [clusterIdx, clusterPostIds] of clusterPostsMap) {
+      labels.set(clusterIdx, await labelCluster(clusterPostIds));
+      subtopics.set(
+        clusterIdx,
+        await planSubtopics(
+          clusterPostIds,
+          clusterPostIds.map((id) => embeddings[postIndex.get(id)!])
+        )
+      );
+      processed += clusterPostIds.length;
+
+      await checkpointJob(jobId, { processed });
+    }
+
+    // Last chance to cancel before the live topics are replaced
+    await checkpointJob(jobId);
+
+    // 4. Atomically swap old topics for the new ones
+    console.log(`   🔁 Swapping in ${clusterPostsMap.size} new topics...`);
+    await prisma.$transaction(
+      async (tx) => {
+        await tx.postTopic.deleteMany({ where: { topicId: { notIn: locked.topicIds } } });
+        await tx.topic.deleteMany({ where: { id: { notIn: locked.topicIds } } });
+        await saveProjectionBasis(basis, postIds.length, tx);
+
+        await savePostPositions(postIds, positions, tx);
+        await syncDuplicatePositions(tx);
+
+        // Locked topics move with the new projection
+        for (const id of locked.topicIds) {
+          await refreshTopic(id, tx);
+        }
+
+        const topics: TopicCentroid[] = [];
+        for (const [clusterIdx, clusterPostIds] of clusterPostsMap) {
+          const label = labels.get(clusterIdx)!;
+          const previous = matches.has(clusterIdx) ? previousTopics[matches.get(clusterIdx)!] : null;
+          const id = await createTopicFromCluster(
+            {
+              postIds: clusterPostIds,
+              centroid: centroids[clusterIdx],
+              colorIndex: clusterIdx,
+              position: centroidPositions[clusterIdx],
+              label,
+              relevances: clusterPostIds.map((id) =>
+                cosineSimilarity(embeddings[postIndex.get(id)!], centroids[clusterIdx])
+              ),
+              id: previous?.id,
+              color: previous ? previousColors.get(previous.id) : undefined,
+            },
+            tx
+          );
+          await saveSubtopics(id, subtopics.get(clusterIdx)!, basis, tx);
+          topics.push({
+            id,
+            name: label.name,
+            centroid: centroids[clusterIdx],
+            postCount: clusterPostIds.length,
+          });
+        }
+
+        // Soft assignment: link every post to its other close topics. Free
+        // posts only link to the new topics; a link to a locked topic could
+        // outrank their cluster and hand them to it on the next re-cluster.
+        const lockedIdxs = postIds.flatMap((id, i) => (lockedPostIds.has(id) ? [i] : []));
+        await linkRelatedTopics(
+          freeIdxs.map((i) => postIds[i]),
+          freeIdxs.map((i) => embeddings[i]),
+          topics,
+          DEFAULT_SOFT_ASSIGNMENT,
+          [],
+          tx
+        );
+        await linkRelatedTopics(
+          lockedIdxs.map((i) => postIds[i]),
+          lockedIdxs.map((i) => embeddings[i]),
+          [...lockedTopics, ...topics],
+          DEFAULT_SOFT_ASSIGNMENT,
+          [],
+          tx
+        );
+      },
+      { timeout: SWAP_TIMEOUT }
+    );
+
+    await saveTopicRun(jobId, "recluster");
+
+    // 5. Mark complete
+    await prisma.ingestionJob.update({
+      where: { id: jobId },
+      data: {
+        status: "completed",
+        completedAt: new Date(),
+        processed,
+      },
+    });
+
+    console.log(`\n🎉 Re-cluster complete!`);
+  } catch (error) {
+    console.error("❌ Re-cluster failed:", error);
+    await failJob(jobId, error);
+  }
+}
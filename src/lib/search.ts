@@ -0,0 +1,312 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/db";
+import { generateEmbedding } from "@/lib/ai";
+import { SearchMatch, SearchResult } from "@/types";
+
+export type SearchMode = "keyword" | "semantic" | "hybrid";
+
+export const SEARCH_MODES: SearchMode[] = ["keyword", "semantic", "hybrid"];
+
+const RRF_K = 60; // Reciprocal rank fusion damping constant
+
+// Full-text documents. Titles, names and author handles weigh more than
+// bodies; handles use the "simple" config so they are matched verbatim.
+// They are stored as generated search_vector columns with GIN indexes.
+const POST_DOCUMENT = Prisma.sql`(
+  setweight(to_tsvector('english'::regconfig, coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('simple'::regconfig, coalesce(author, '')), 'A') ||
+  setweight(to_tsvector('english'::regconfig, content), 'B')
+)`;
+
+const TOPIC_DOCUMENT = Prisma.sql`(
+  setweight(to_tsvector('english'::regconfig, name), 'A') ||
+  setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'B')
+)`;
+
+// Prisma can't declare generated columns, so migrations create
+// search_vector as a plain column. Turn it into a generated one (with its
+// index) once, at startup.
+async function ensureSearchVector(table: "posts" | "topics", document: Prisma.Sql): Promise<void> {
+  const [column] = await prisma.$queryRaw<Array<{ is_generated: string }>>`
+    SELECT is_generated FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = ${table} AND column_name = 'search_vector'
+  `;
+  if (column?.is_generated === "ALWAYS") return;
+
+  const tableName = Prisma.raw(table);
+  const indexName = Prisma.raw(`${table}_search_vector_idx`);
+  await prisma.$transaction([
+    prisma.$executeRaw`ALTER TABLE ${tableName} DROP COLUMN IF EXISTS search_vector`,
+    prisma.$executeRaw`
+      ALTER TABLE ${tableName}
+      ADD COLUMN search_vector tsvector GENERATED ALWAYS AS ${document} STORED
+    `,
+    prisma.$executeRaw`CREATE INDEX ${indexName} ON ${tableName} USING GIN (search_vector)`,
+  ]);
+  console.log(`🔎 Created full-text search column on ${table}`);
+}
+
+export async function ensureSearchVectors(): Promise<void> {
+  await ensureSearchVector("posts", POST_DOCUMENT);
+  await ensureSearchVector("topics", TOPIC_DOCUMENT);
+}
+
+function textQuery(query: string): Prisma.Sql {
+  return Prisma.sql`(websearch_to_tsquery('english', ${query}) || websearch_to_tsquery('simple', ${query}))`;
+}
+
+type Hit = Omit<SearchResult, "matchedBy">;
+
+export interface SearchOptions {
+  mode: SearchMode;
+  limit: number;
+  offset: number;
+  type?: "post" | "topic";
+  topicId?: string;
+  author?: string; // Display name, case-insensitive
+  authorId?: string;
+  from?: Date;
+  to?: Date;
+  minSimilarity?: number; // Minimum cosine similarity to the query; needs an embedded query
+}
+
+// Filters that only make sense for posts; setting any of them drops topics
+// from the results
+function hasPostFilters(options: SearchOptions): boolean {
+  return Boolean(
+    options.topicId || options.author || options.authorId || options.from || options.to
+  );
+}
+
+// Near-duplicates are always left out; their canonical post stands in
+function postConditions(options: SearchOptions): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [Prisma.sql`canonical_id IS NULL`];
+
+  if (options.topicId) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM post_topics pt WHERE pt.post_id = posts.id AND pt.topic_id = ${options.topicId}
+    )`);
+  }
+  if (options.author) conditions.push(Prisma.sql`lower(author) = lower(${options.author})`);
+  if (options.authorId) conditions.push(Prisma.sql`author_id = ${options.authorId}`);
+  if (options.from) conditions.push(Prisma.sql`created_at >= ${options.from}`);
+  if (options.to) conditions.push(Prisma.sql`created_at <= ${options.to}`);
+
+  return Prisma.sql`AND ${Prisma.join(conditions, " AND ")}`;
+}
+
+// Hold keyword matches to the same minimum similarity as semantic ones.
+// Without a query embedding (keyword mode) there is nothing to compare.
+function similarityCondition(
+  column: Prisma.Sql,
+  embeddingStr: string | null,
+  minSimilarity: number | undefined
+): Prisma.Sql {
+  if (!embeddingStr || minSimilarity === undefined) return Prisma.empty;
+  return Prisma.sql`AND 1 - (${column} <=> ${embeddingStr}::vector) >= ${minSimilarity}`;
+}
+
+async function semanticTopics(
+  embeddingStr: string,
+  limit: number,
+  minSimilarity: number
+): Promise<Hit[]> {
+  const rows = await prisma.$queryRaw<
+    Array<{ id: string; name: string; description: string | null; similarity: number }>
+  >`
+    SELECT id, name, description,
+           1 - (centroid_embedding <=> ${embeddingStr}::vector) as similarity
+    FROM topics
+    WHERE centroid_embedding IS NOT NULL
+      AND 1 - (centroid_embedding <=> ${embeddingStr}::vector) >= ${minSimilarity}
+    ORDER BY centroid_embedding <=> ${embeddingStr}::vector
+    LIMIT ${limit}
+  `;
+
+  return rows.map((t) => ({
+    id: t.id,
+    type: "topic" as const,
+    label: t.name,
+    content: t.description || undefined,
+    similarity: t.similarity,
+  }));
+}
+
+async function keywordTopics(
+  query: string,
+  limit: number,
+  similarity: Prisma.Sql
+): Promise<Hit[]> {
+  const rows = await prisma.$queryRaw<
+    Array<{ id: string; name: string; description: string | null; rank: number }>
+  >`
+    SELECT id, name, description,
+           ts_rank_cd(search_vector, ${textQuery(query)}, 32) as rank
+    FROM topics
+    WHERE search_vector @@ ${textQuery(query)}
+      ${similarity}
+    ORDER BY rank DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((t) => ({
+    id: t.id,
+    type: "topic" as const,
+    label: t.name,
+    content: t.description || undefined,
+    similarity: t.rank,
+  }));
+}
+
+async function semanticPosts(
+  embeddingStr: string,
+  limit: number,
+  options: SearchOptions
+): Promise<Hit[]> {
+  const rows = await prisma.$queryRaw<
+    Array<{ id: string; content: string; title: string | null; similarity: number }>
+  >`
+    SELECT id, content, title,
+           1 - (embedding <=> ${embeddingStr}::vector) as similarity
+    FROM posts
+    WHERE embedding IS NOT NULL
+      AND 1 - (embedding <=> ${embeddingStr}::vector) >= ${options.minSimilarity ?? -1}
+      ${postConditions(options)}
+    ORDER BY embedding <=> ${embeddingStr}::vector
+    LIMIT ${limit}
+  `;
+
+  return rows.map((p) => ({
+    id: p.id,
+    type: "post" as const,
+    label: p.title || p.content.slice(0, 50) + "...",
+    content: p.content,
+    similarity: p.similarity,
+  }));
+}
+
+async function keywordPosts(
+  query: string,
+  limit: number,
+  options: SearchOptions,
+  similarity: Prisma.Sql
+): Promise<Hit[]> {
+  const rows = await prisma.$queryRaw<
+    Array<{ id: string; content: string; title: string | null; rank: number }>
+  >`
+    SELECT id, content, title,
+           ts_rank_cd(search_vector, ${textQuery(query)}, 32) as rank
+    FROM posts
+    WHERE search_vector @@ ${textQuery(query)}
+      ${similarity}
+      ${postConditions(options)}
+    ORDER BY rank DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((p) => ({
+    id: p.id,
+    type: "post" as const,
+    label: p.title || p.content.slice(0, 50) + "...",
+    content: p.content,
+    similarity: p.rank,
+  }));
+}
+
+// Merge ranked lists with reciprocal rank fusion. A result's similarity is
+// its semantic score when it has one, else its keyword score (0-1).
+export function fuseRankings(
+  lists: Array<{ match: SearchMatch; hits: Hit[] }>
+): SearchResult[] {
+  const fused: Map<string, SearchResult & { score: number }> = new Map();
+
+  lists.forEach(({ match, hits }) => {
+    hits.forEach((hit, rank) => {
+      const key = `${hit.type}:${hit.id}`;
+      const existing = fused.get(key);
+      const score = 1 / (RRF_K + rank + 1);
+
+      if (existing) {
+        existing.score += score;
+        existing.matchedBy!.push(match);
+        if (match === "semantic") existing.similarity = hit.similarity;
+      } else {
+        fused.set(key, { ...hit, score, matchedBy: [match] });
+      }
+    });
+  });
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+// Search topics and posts. Hybrid mode fuses keyword and semantic rankings;
+// semantic and hybrid modes fall back to keyword search if the query can't
+// be embedded (e.g. the embedding provider is down).
+export async function search(
+  query: string,
+  options: SearchOptions
+): Promise<{ results: SearchResult[]; mode: SearchMode; hasMore: boolean }> {
+  let mode = options.mode;
+  let embeddingStr: string | null = null;
+
+  if (mode !== "keyword") {
+    try {
+      const queryEmbedding = await generateEmbedding(query);
+      embeddingStr = `[${queryEmbedding.join(",")}]`;
+    } catch (error) {
+      console.warn("Query embedding failed, falling back to keyword search:", error);
+      mode = "keyword";
+    }
+  }
+
+  const includeTopics = options.type !== "post" && !hasPostFilters(options);
+  const includePosts = options.type !== "topic";
+
+  // Every list needs enough candidates to fill the requested page (+1 to
+  // tell whether another page exists)
+  const candidates = options.offset + options.limit + 1;
+  const minSimilarity = options.minSimilarity ?? -1;
+  const lists: Array<{ match: SearchMatch; hits: Hit[] }> = [];
+
+  if (mode !== "keyword" && embeddingStr) {
+    const [topics, posts] = await Promise.all([
+      includeTopics ? semanticTopics(embeddingStr, candidates, minSimilarity) : [],
+      includePosts ? semanticPosts(embeddingStr, candidates, options) : [],
+    ]);
+    lists.push({ match: "semantic", hits: topics }, { match: "semantic", hits: posts });
+  }
+
+  if (mode !== "semantic") {
+    const [topics, posts] = await Promise.all([
+      includeTopics
+        ? keywordTopics(
+            query,
+            candidates,
+            similarityCondition(Prisma.sql`centroid_embedding`, embeddingStr, options.minSimilarity)
+          )
+        : [],
+      includePosts
+        ? keywordPosts(
+            query,
+            candidates,
+            options,
+            similarityCondition(Prisma.sql`embedding`, embeddingStr, options.minSimilarity)
+          )
+        : [],
+    ]);
+    lists.push({ match: "keyword", hits: topics }, { match: "keyword", hits: posts });
+  }
+
+  const results = fuseRankings(lists);
+
+  // A single ranking has comparable scores across topics and posts
+  if (mode !== "hybrid") {
+    results.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  return {
+    results: results.slice(options.offset, options.offset + options.limit),
+    mode,
+    hasMore: results.length > options.offset + options.limit,
+  };
+}
@@ -0,0 +1,62 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/db";
+import { TimelineBucket, TopicTimeline } from "@/types";
+
+export const TIMELINE_BUCKETS: TimelineBucket[] = ["hour", "day", "week"];
+
+const BUCKET_MS: Record<TimelineBucket, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+// New posts per topic per time bucket, by post createdAt. Each post counts
+// once, towards its strongest top-level topic, so counts add up to topic postCounts.
+// Buckets are contiguous (empty ones included) so they can be played back.
+export async function loadTopicTimeline(
+  bucket: TimelineBucket,
+  from?: Date,
+  to?: Date
+): Promise<TopicTimeline> {
+  const conditions: Prisma.Sql[] = [];
+  if (from) conditions.push(Prisma.sql`p.created_at >= ${from}`);
+  if (to) conditions.push(Prisma.sql`p.created_at <= ${to}`);
+
+  const rows = await prisma.$queryRaw<Array<{ bucket: Date; topic_id: string; count: number }>>`
+    WITH primary_topics AS (
+      SELECT DISTINCT ON (pt.post_id) pt.post_id, pt.topic_id
+      FROM post_topics pt
+      JOIN topics t ON t.id = pt.topic_id AND t.parent_id IS NULL
+      ORDER BY pt.post_id, pt.relevance DESC
+    )
+    SELECT date_trunc(${bucket}, p.created_at) AS bucket, pr.topic_id, COUNT(*)::int AS count
+    FROM posts p
+    JOIN primary_topics pr ON pr.post_id = p.id
+    ${conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, " AND ")}` : Prisma.empty}
+    GROUP BY 1, 2
+    ORDER BY 1
+  `;
+
+  if (rows.length === 0) {
+    return { bucket, buckets: [], topics: [] };
+  }
+
+  // Fill the range between the first and last bucket
+  const first = rows[0].bucket.getTime();
+  const last = rows[rows.length - 1].bucket.getTime();
+  const buckets: number[] = [];
+  for (let t = first; t <= last; t += BUCKET_MS[bucket]) buckets.push(t);
+  const bucketIndex = new Map(buckets.map((t, i) => [t, i]));
+
+  const counts: Map<string, number[]> = new Map();
+  rows.forEach((row) => {
+    if (!counts.has(row.topic_id)) counts.set(row.topic_id, new Array(buckets.length).fill(0));
+    counts.get(row.topic_id)![bucketIndex.get(row.bucket.getTime())!] = row.count;
+  });
+
+  return {
+    bucket,
+    buckets: buckets.map((t) => new Date(t).toISOString()),
+    topics: [...counts].map(([topicId, topicCounts]) => ({ topicId, counts: topicCounts })),
+  };
+}
@@ -0,0 +1,289 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/db";
+import { generateClusterLabel } from "@/lib/ai";
+import { getTopicColor, rankCentroids } from "@/lib/clustering";
+import { BondMethod, GraphLink, TopicStats } from "@/types";
+
+type DbClient = Prisma.TransactionClient;
+
+export interface TopicCentroid {
+  id: string;
+  name: string;
+  centroid: number[];
+  postCount: number; // Posts whose primary topic this is
+}
+
+// Soft assignment settings: how many topics a post may link to, and how
+// similar a secondary topic must be
+export interface SoftAssignment {
+  topN: number;
+  minSimilarity: number;
+}
+
+export const DEFAULT_SOFT_ASSIGNMENT: SoftAssignment = {
+  topN: parseInt(process.env.TOPICS_PER_POST || "3"),
+  minSimilarity: parseFloat(process.env.TOPIC_MIN_RELEVANCE || "0.4"),
+};
+
+const TAG_BOOST = 0.1; // Relevance added when an extracted tag names the topic
+
+// Parse a pgvector text value ("[0.1,0.2,...]") into a number array
+export function parseVector(value: string): number[] {
+  return JSON.parse(value);
+}
+
+// Load every top-level topic (or every subtopic of parentId) that has a
+// stored centroid embedding
+export async function loadTopicCentroids(
+  parentId: string | null = null,
+  db: DbClient = prisma
+): Promise<TopicCentroid[]> {
+  const rows = await db.$queryRaw<
+    Array<{ id: string; name: string; centroid: string; post_count: number }>
+  >`
+    SELECT id, name, centroid_embedding::text AS centroid, post_count
+    FROM topics
+    WHERE centroid_embedding IS NOT NULL
+      AND parent_id IS NOT DISTINCT FROM ${parentId}
+  `;
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    centroid: parseVector(row.centroid),
+    postCount: row.post_count,
+  }));
+}
+
+// Attach posts to an existing topic, folding their embeddings into the
+// topic's running-mean centroid and bumping the cached post count
+export async function addPostsToTopic(
+  topic: TopicCentroid,
+  postIds: string[],
+  embeddings: number[][],
+  relevances: number[],
+  db: DbClient = prisma
+): Promise<void> {
+  if (postIds.length === 0) return;
+
+  const total = topic.postCount + postIds.length;
+  const centroid = topic.centroid.map((val, i) => {
+    const added = embeddings.reduce((sum, emb) => sum + emb[i], 0);
+    return (val * topic.postCount + added) / total;
+  });
+
+  await db.postTopic.createMany({
+    data: postIds.map((postId, i) => ({
+      postId,
+      topicId: topic.id,
+      relevance: relevances[i],
+    })),
+    skipDuplicates: true,
+  });
+
+  await db.topic.update({
+    where: { id: topic.id },
+    data: { postCount: total },
+  });
+
+  await db.$executeRaw`
+    UPDATE topics
+    SET centroid_embedding = ${`[${centroid.join(",")}]`}::vector
+    WHERE id = ${topic.id}
+  `;
+
+  topic.centroid = centroid;
+  topic.postCount = total;
+}
+
+// Generate an AI label for a cluster from a sample of its posts
+export async function labelCluster(
+  postIds: string[],
+  db: DbClient = prisma
+): Promise<{ name: string; description: string }> {
+  const samplePosts = await db.post.findMany({
+    where: { id: { in: postIds.slice(0, 10) } },
+    select: { content: true, title: true },
+  });
+
+  return generateClusterLabel(
+    samplePosts.map((p) => (p.title ? `${p.title}: ${p.content}` : p.content))
+  );
+}
+
+// Store a cluster as a topic linked to its posts, labeling it with AI
+// unless a label was generated up front
+export async function createTopicFromCluster(
+  cluster: {
+    postIds: string[];
+    centroid: number[];
+    colorIndex: number;
+    position?: { x: number; y: number; z: number };
+    label?: { name: string; description: string };
+    relevances?: number[]; // Post-to-centroid similarity, per post
+    id?: string; // Reuse the id of the topic this cluster continues
+    color?: string;
+    parentId?: string; // Set for subtopics
+  },
+  db: DbClient = prisma
+): Promise<string> {
+  const { name, description } =
+    cluster.label ?? (await labelCluster(cluster.postIds, db));
+
+  const topic = await db.topic.create({
+    data: {
+      ...(cluster.id && { id: cluster.id }),
+      parentId: cluster.parentId,
+      name,
+      description,
+      color: cluster.color ?? getTopicColor(cluster.colorIndex),
+      posX: cluster.position?.x || 0,
+      posY: cluster.position?.y || 0,
+      posZ: cluster.position?.z || 0,
+      postCount: cluster.postIds.length,
+    },
+  });
+
+  // Store centroid embedding
+  await db.$executeRaw`
+    UPDATE topics
+    SET centroid_embedding = ${`[${cluster.centroid.join(",")}]`}::vector
+    WHERE id = ${topic.id}
+  `;
+
+  // Link posts to topic
+  await db.postTopic.createMany({
+    data: cluster.postIds.map((postId, i) => ({
+      postId,
+      topicId: topic.id,
+      relevance: cluster.relevances?.[i] ?? 1.0,
+    })),
+  });
+
+  return topic.id;
+}
+
+// Link posts to their secondary topics: the top-N most similar centroids
+// beyond the primary one, weighted by cosine similarity. Topics named by a
+// post's extracted tags get a relevance boost and are linked even when they
+// fall outside the top N. Existing links are left untouched.
+export async function linkRelatedTopics(
+  postIds: string[],
+  embeddings: number[][],
+  topics: TopicCentroid[],
+  options: SoftAssignment = DEFAULT_SOFT_ASSIGNMENT,
+  tags: string[][] = [],
+  db: DbClient = prisma
+): Promise<number> {
+  const centroids = topics.map((t) => t.centroid);
+  const links: Array<{ postId: string; topicId: string; relevance: number }> = [];
+
+  postIds.forEach((postId, i) => {
+    const relevances: Map<number, number> = new Map();
+    rankCentroids(embeddings[i], centroids, options.topN, options.minSimilarity).forEach(
+      ({ index, similarity }) => relevances.set(index, similarity)
+    );
+
+    (tags[i] || []).forEach((tag) => {
+      topics.forEach((topic, index) => {
+        if (!topic.name.toLowerCase().includes(tag.toLowerCase())) return;
+        const base = relevances.get(index) ?? Math.max(options.minSimilarity, 0);
+        relevances.set(index, Math.min(base + TAG_BOOST, 1));
+      });
+    });
+
+    relevances.forEach((relevance, index) => {
+      links.push({ postId, topicId: topics[index].id, relevance });
+    });
+  });
+
+  const { count } = await db.postTopic.createMany({
+    data: links,
+    skipDuplicates: true,
+  });
+  return count;
+}
+
+// Bonds between top-level topic pairs scoring at least minStrength, strongest first.
+// "centroid" scores by centroid cosine similarity; "shared" by the posts two
+// topics have in common over the smaller topic's post links.
+export async function loadTopicBonds(
+  method: BondMethod,
+  minStrength: number,
+  db: DbClient = prisma
+): Promise<GraphLink[]> {
+  if (method === "centroid") {
+    return db.$queryRaw<GraphLink[]>`
+      SELECT a.id AS source, b.id AS target,
+             1 - (a.centroid_embedding <=> b.centroid_embedding) AS strength
+      FROM topics a
+      JOIN topics b ON a.id < b.id
+      WHERE a.parent_id IS NULL AND b.parent_id IS NULL
+        AND a.centroid_embedding IS NOT NULL
+        AND b.centroid_embedding IS NOT NULL
+        AND 1 - (a.centroid_embedding <=> b.centroid_embedding) >= ${minStrength}
+      ORDER BY strength DESC
+    `;
+  }
+
+  return db.$queryRaw<GraphLink[]>`
+    WITH counts AS (
+      SELECT pt.topic_id, COUNT(*) AS n
+      FROM post_topics pt
+      JOIN topics t ON t.id = pt.topic_id AND t.parent_id IS NULL
+      GROUP BY pt.topic_id
+    )
+    SELECT a.topic_id AS source, b.topic_id AS target,
+           COUNT(*)::float / LEAST(ca.n, cb.n) AS strength
+    FROM post_topics a
+    JOIN post_topics b ON b.post_id = a.post_id AND a.topic_id < b.topic_id
+    JOIN counts ca ON ca.topic_id = a.topic_id
+    JOIN counts cb ON cb.topic_id = b.topic_id
+    GROUP BY a.topic_id, b.topic_id, ca.n, cb.n
+    HAVING COUNT(*)::float / LEAST(ca.n, cb.n) >= ${minStrength}
+    ORDER BY strength DESC
+  `;
+}
+
+// Membership, time span, authors and submolts of a topic's posts
+export async function loadTopicStats(topicId: string, db: DbClient = prisma): Promise<TopicStats> {
+  const [summary, authors, submolts] = await Promise.all([
+    db.$queryRaw<
+      Array<{ member_count: number; avg_relevance: number | null; first: Date | null; last: Date | null }>
+    >`
+      SELECT COUNT(*)::int AS member_count, AVG(pt.relevance) AS avg_relevance,
+             MIN(p.created_at) AS first, MAX(p.created_at) AS last
+      FROM post_topics pt
+      JOIN posts p ON p.id = pt.post_id
+      WHERE pt.topic_id = ${topicId}
+    `,
+    db.$queryRaw<Array<{ author: string; count: number }>>`
+      SELECT p.author, COUNT(*)::int AS count
+      FROM post_topics pt
+      JOIN posts p ON p.id = pt.post_id
+      WHERE pt.topic_id = ${topicId} AND p.author IS NOT NULL
+      GROUP BY p.author
+      ORDER BY count DESC
+      LIMIT 5
+    `,
+    db.$queryRaw<Array<{ id: string; display_name: string; count: number }>>`
+      SELECT s.id, s.display_name, COUNT(*)::int AS count
+      FROM post_topics pt
+      JOIN posts p ON p.id = pt.post_id
+      JOIN submolts s ON s.id = p.submolt_id
+      WHERE pt.topic_id = ${topicId}
+      GROUP BY s.id
+      ORDER BY count DESC
+      LIMIT 5
+    `,
+  ]);
+
+  return {
+    memberCount: summary[0].member_count,
+    avgRelevance: summary[0].avg_relevance ?? 0,
+    firstPostAt: summary[0].first?.toISOString() ?? null,
+    lastPostAt: summary[0].last?.toISOString() ?? null,
+    topAuthors: authors,
+    topSubmolts: submolts.map((s) => ({ id: s.id, displayName: s.display_name, count: s.count })),
+  };
+}
@@ -0,0 +1,59 @@
+import prisma from "@/lib/db";
+import { TopicTrend } from "@/types";
+
+const BASELINE_DAYS = 28; // History the usual pace is measured over
+const BURST_MIN_POSTS = 3; // A burst needs at least this many posts in the hour...
+const BURST_Z = 3; // ...and this many standard deviations above the baseline
+
+// Recent post counts per top-level topic (each post counted towards its
+// strongest one, as in the timeline) with growth over the topic's own baseline.
+// Sorted by velocity, fastest first; topics with no posts in the baseline
+// period are left out.
+export async function loadTopicTrends(now: Date = new Date()): Promise<TopicTrend[]> {
+  const hour = new Date(now.getTime() - 60 * 60 * 1000);
+  const day = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const week = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+  const since = new Date(now.getTime() - BASELINE_DAYS * 24 * 60 * 60 * 1000);
+
+  const rows = await prisma.$queryRaw<
+    Array<{ topic_id: string; last_hour: number; last_day: number; last_week: number; earlier: number }>
+  >`
+    WITH primary_topics AS (
+      SELECT DISTINCT ON (pt.post_id) pt.post_id, pt.topic_id
+      FROM post_topics pt
+      JOIN topics t ON t.id = pt.topic_id AND t.parent_id IS NULL
+      ORDER BY pt.post_id, pt.relevance DESC
+    )
+    SELECT pr.topic_id,
+           COUNT(*) FILTER (WHERE p.created_at >= ${hour})::int AS last_hour,
+           COUNT(*) FILTER (WHERE p.created_at >= ${day})::int AS last_day,
+           COUNT(*) FILTER (WHERE p.created_at >= ${week})::int AS last_week,
+           COUNT(*) FILTER (WHERE p.created_at < ${day})::int AS earlier
+    FROM posts p
+    JOIN primary_topics pr ON pr.post_id = p.id
+    WHERE p.created_at >= ${since} AND p.created_at <= ${now}
+    GROUP BY pr.topic_id
+  `;
+
+  return rows
+    .map((row) => {
+      const baseline = row.earlier / (BASELINE_DAYS - 1);
+      // Blend the last hour (scaled to a day) with the last day
+      const velocity = (row.last_hour * 24 + row.last_day) / 2;
+      // Poisson z-score of the last hour against the baseline hourly rate
+      const expected = Math.max(baseline / 24, 1 / 24);
+      const z = (row.last_hour - expected) / Math.sqrt(expected);
+
+      return {
+        topicId: row.topic_id,
+        lastHour: row.last_hour,
+        lastDay: row.last_day,
+        lastWeek: row.last_week,
+        baseline,
+        velocity,
+        growth: (velocity + 1) / (baseline + 1),
+        isBursting: row.last_hour >= BURST_MIN_POSTS && z >= BURST_Z,
+      };
+    })
+    .sort((a, b) => b.velocity - a.velocity || b.growth - a.growth);
+}
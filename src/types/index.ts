@@ -10,9 +10,32 @@ export interface Post {
   posX?: number;
   posY?: number;
   posZ?: number;
+  submolt?: SubmoltRef | null;
   topics?: TopicRef[];
+  canonicalId?: string; // Set on near-duplicates: the post they repeat
+  duplicateCount?: number; // Near-duplicates collapsed into this post
 }
 
+// A Moltbook community
+export interface SubmoltRef {
+  id: string;
+  name: string;
+  displayName: string;
+}
+
+export interface Submolt extends SubmoltRef {
+  color: string;
+  posX?: number;
+  posY?: number;
+  posZ?: number;
+  postCount: number;
+  // How the submolt's posts spread across topics
+  topics: Array<{ topicId: string; count: number }>;
+}
+
+// How the map groups posts: by AI topic or by Moltbook community
+export type GroupBy = "topic" | "submolt";
+
 export interface Topic {
   id: string;
   name: string;
@@ -22,6 +45,9 @@ export interface Topic {
   posY?: number;
   posZ?: number;
   postCount: number;
+  parentId?: string;
+  children?: Topic[]; // Subtopics, largest first
+  locked?: boolean; // Kept as is by re-clusters
 }
 
 export interface TopicRef {
@@ -35,16 +61,98 @@ export interface TopicWithPosts extends Topic {
   posts: Post[];
 }
 
+// A post close to another in embedding space
+export interface PostNeighbor {
+  id: string;
+  label: string;
+  similarity: number;
+  color?: string; // Color of its strongest topic
+  posX?: number;
+  posY?: number;
+  posZ?: number;
+}
+
+export interface TopicStats {
+  memberCount: number; // Posts linked to the topic, primary or secondary
+  avgRelevance: number;
+  firstPostAt: string | null;
+  lastPostAt: string | null;
+  topAuthors: Array<{ author: string; count: number }>;
+  topSubmolts: Array<{ id: string; displayName: string; count: number }>;
+}
+
+// Recent activity of a topic, relative to its own baseline
+export interface TopicTrend {
+  topicId: string;
+  lastHour: number; // New posts in the last hour
+  lastDay: number;
+  lastWeek: number;
+  baseline: number; // Average posts per day over the preceding weeks
+  velocity: number; // Recent posts per day, weighted towards the last hour
+  growth: number; // velocity / baseline (smoothed; 1 = usual pace)
+  isBursting: boolean; // Last hour far above the baseline hourly rate
+}
+
+// A clustering run (ingest or re-cluster) with a stored topic snapshot
+export interface TopicRunSummary {
+  id: string;
+  type: string;
+  topicCount: number;
+  createdAt: string;
+}
+
+// A topic as it stood at the end of a run
+export interface TopicVersion {
+  topicId: string;
+  name: string;
+  color: string;
+  postCount: number;
+}
+
+// What changed between two runs. Topics keep their id across runs when
+// their centroid barely moved; merges and splits are found by centroid
+// similarity between the topics that did not.
+export interface TopicRunDiff {
+  from: TopicRunSummary;
+  to: TopicRunSummary;
+  born: TopicVersion[];
+  died: TopicVersion[];
+  merged: Array<{ into: TopicVersion; from: TopicVersion[] }>;
+  split: Array<{ from: TopicVersion; into: TopicVersion[] }>;
+  renamed: Array<{ topic: TopicVersion; previousName: string }>;
+}
+
+// A manual topic edit from the audit log. `details` holds the changed
+// fields (from/to) for updates, or the topics and posts involved
+export interface TopicEdit {
+  id: string;
+  topicId: string;
+  action: "update" | "merge" | "split" | "move";
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+// A Moltbook agent and what it posts about
+export interface AuthorProfile {
+  id: string; // Moltbook agent id, as in Post.authorId
+  name: string;
+  postCount: number;
+  topics: Array<{ topicId: string; name: string; color: string; count: number }>; // By each post's strongest top-level topic, largest first
+  timeline: Array<{ date: string; count: number }>; // Posts per day
+  meanEmbedding: number[] | null;
+  postIds: string[]; // Most recent first
+}
+
 export interface GraphNode {
   id: string;
-  type: "topic" | "post";
+  type: "topic" | "submolt" | "post";
   label: string;
   color: string;
   size: number;
   x: number;
   y: number;
   z: number;
-  data: Topic | Post;
+  data: Topic | Submolt | Post;
 }
 
 export interface GraphLink {
@@ -53,29 +161,124 @@ export interface GraphLink {
   strength: number;
 }
 
+// Streamed "all posts" point cloud: a header line, then columnar chunks
+export interface GalaxyHeader {
+  topics: Array<{ id: string; color: string }>;
+  total: number;
+}
+
+export interface GalaxyChunk {
+  ids: string[];
+  positions: number[]; // x, y, z per post
+  topics: number[]; // Index into GalaxyHeader.topics, -1 for none
+  labels: string[];
+  times: number[]; // createdAt, epoch seconds
+}
+
+// The point cloud as loaded so far, in render-ready buffers
+export interface GalaxyData {
+  ids: string[];
+  labels: string[];
+  positions: Float32Array;
+  colors: Float32Array; // r, g, b per post
+  topicIds: Array<string | null>;
+  times: Float64Array; // createdAt, epoch ms
+  total: number;
+}
+
+// Columnar graph from /api/graph: one entry per post in each column, with
+// topics, submolts and colors sent once as lookup tables
+export interface CompactGraph {
+  topics: Array<{ id: string; name: string; color: string }>;
+  submolts: SubmoltRef[];
+  colors: string[];
+  ids: string[];
+  labels: string[];
+  positions: number[]; // x, y, z per post
+  sizes: number[];
+  colorIndex: number[]; // Into colors
+  topicIndex: number[]; // Strongest topic, into topics (-1 for none)
+  submoltIndex: number[]; // Into submolts (-1 for none)
+  times: number[]; // createdAt, epoch seconds
+  duplicates: number[]; // Near-duplicates collapsed into each post
+  // Every post -> topic membership, as parallel columns
+  links: { post: number[]; topic: number[]; strength: number[] };
+}
+
+export type TimelineBucket = "hour" | "day" | "week";
+
+// New posts per topic per time bucket; counts line up with buckets
+export interface TopicTimeline {
+  bucket: TimelineBucket;
+  buckets: string[]; // Bucket start times (ISO)
+  topics: Array<{ topicId: string; counts: number[] }>;
+}
+
+// Camera placement, as stored in shareable URLs
+export interface CameraPose {
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+// A point of interest pulsing on the map
+export interface MapMarker {
+  x: number;
+  y: number;
+  z: number;
+  color?: string;
+}
+
+// How topic-to-topic bonds are scored: centroid cosine similarity, or the
+// share of posts the two topics have in common
+export type BondMethod = "centroid" | "shared";
+
 export interface GraphData {
   nodes: GraphNode[];
   links: GraphLink[];
 }
 
+export type SearchMatch = "keyword" | "semantic";
+
 export interface SearchResult {
   id: string;
   type: "topic" | "post";
   label: string;
   content?: string;
   similarity: number;
+  score?: number; // Fused rank score (hybrid mode)
+  matchedBy?: SearchMatch[];
+}
+
+export interface SearchFilters {
+  type?: "post" | "topic";
+  topicId?: string;
+  author?: string;
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+  minSimilarity?: number;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  mode: "keyword" | "semantic" | "hybrid";
+  hasMore: boolean;
 }
 
 // Moltbook API types (adjust based on actual API)
 export interface MoltbookPost {
   id: string;
   content: string;
-  title?: string;
+  title?: string | null;
   author?: {
     id: string;
     name: string;
   };
-  url?: string;
+  submolt?: {
+    id: string;
+    name: string;
+    display_name: string;
+  };
+  url?: string | null;
   created_at: string;
 }
 